@@ -0,0 +1,95 @@
+import { test, expect, describe } from 'bun:test'
+import { calloutKind, calloutTitle, parseContainerInfo, readCalloutMarker } from './callout'
+
+// ── calloutKind ────────────────────────────────────────────────
+
+describe('calloutKind', () => {
+  test('reconhece os tipos do GitHub e aliases comuns', () => {
+    expect(calloutKind('NOTE')).toBe('note')
+    expect(calloutKind('info')).toBe('note')
+    expect(calloutKind('danger')).toBe('caution')
+    expect(calloutKind('important')).toBe('important')
+  })
+
+  test('rótulos desconhecidos viram custom', () => {
+    expect(calloutKind('deprecated')).toBe('custom')
+  })
+
+  test('título padrão é o rótulo capitalizado', () => {
+    expect(calloutTitle({ label: 'warning' })).toBe('Warning')
+    expect(calloutTitle({ label: 'tip', title: 'Pro tip' })).toBe('Pro tip')
+  })
+})
+
+// ── parseContainerInfo ─────────────────────────────────────────
+
+describe('parseContainerInfo', () => {
+  test('lê rótulo e título', () => {
+    expect(parseContainerInfo(':::tip')).toEqual({ label: 'tip' })
+    expect(parseContainerInfo(':::Warning Heads up ')).toEqual({
+      label: 'warning',
+      title: 'Heads up',
+    })
+    expect(parseContainerInfo('::::note[Read this]')).toEqual({ label: 'note', title: 'Read this' })
+  })
+
+  test('linha sem rótulo não abre container', () => {
+    expect(parseContainerInfo(':::warning Heads up\r')).toEqual({
+      label: 'warning',
+      title: 'Heads up',
+    })
+    expect(parseContainerInfo(':::')).toBeUndefined()
+  })
+})
+
+// ── readCalloutMarker ──────────────────────────────────────────
+
+describe('readCalloutMarker', () => {
+  test('marcador de alerta do GitHub', () => {
+    const found = readCalloutMarker([
+      { type: 'text', value: '[!WARNING]\nBe ' },
+      { type: 'strong', children: [{ type: 'text', value: 'careful' }] },
+    ])
+    expect(found).toEqual({
+      marker: { label: 'warning' },
+      inline: [
+        { type: 'text', value: 'Be ' },
+        { type: 'strong', children: [{ type: 'text', value: 'careful' }] },
+      ],
+    })
+  })
+
+  test('texto na linha do marcador vira título', () => {
+    const found = readCalloutMarker([{ type: 'text', value: '[!NOTE] Custom title\nbody' }])
+    expect(found!.marker).toEqual({ label: 'note', title: 'Custom title' })
+    expect(found!.inline).toEqual([{ type: 'text', value: 'body' }])
+  })
+
+  test('marcador sozinho não deixa nós', () => {
+    expect(readCalloutMarker([{ type: 'text', value: '[!TIP]' }])!.inline).toEqual([])
+  })
+
+  test('negrito no estilo antigo (`**Note**`, `**Warning:**`)', () => {
+    const found = readCalloutMarker([
+      { type: 'strong', children: [{ type: 'text', value: 'Warning:' }] },
+      { type: 'text', value: ' do not' },
+    ])
+    expect(found).toEqual({
+      marker: { label: 'warning' },
+      inline: [{ type: 'text', value: 'do not' }],
+    })
+    const colonAfter = readCalloutMarker([
+      { type: 'strong', children: [{ type: 'text', value: 'Deprecated' }] },
+      { type: 'text', value: ': use Link' },
+    ])
+    expect(colonAfter!.inline).toEqual([{ type: 'text', value: 'use Link' }])
+  })
+
+  test('texto comum não é callout', () => {
+    expect(readCalloutMarker([{ type: 'text', value: 'just a quote' }])).toBeNull()
+    expect(
+      readCalloutMarker([{ type: 'strong', children: [{ type: 'text', value: 'Bold' }] }]),
+    ).toBeNull()
+    expect(readCalloutMarker([])).toBeNull()
+  })
+})
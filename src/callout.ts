@@ -0,0 +1,82 @@
+/**
+ * Callout - Reconhece avisos em blockquotes e containers
+ * `> [!WARNING]`, `> **Note**` e `:::tip Título`
+ */
+
+import type { InlineNode } from './inline'
+
+export type CalloutKind = 'note' | 'tip' | 'warning' | 'caution' | 'important' | 'custom'
+
+export interface CalloutMarker {
+  /** Rótulo original em minúsculas (`'warning'`, `'deprecated'`, `'info'`...) */
+  label: string
+  /** Título escrito após o marcador (`> [!NOTE] Título`, `:::tip Título`) */
+  title?: string
+}
+
+const KINDS: Record<string, CalloutKind> = {
+  note: 'note',
+  info: 'note',
+  tip: 'tip',
+  hint: 'tip',
+  important: 'important',
+  warning: 'warning',
+  caution: 'caution',
+  danger: 'caution',
+}
+
+/** Rótulos aceitos no estilo antigo do GitHub (`> **Note**`), para não confundir com negrito comum */
+const BOLD_LABELS = new Set([...Object.keys(KINDS), 'deprecated'])
+
+const ALERT_MARKER = /^\[!([\w-]+)\][ \t]*([^\n]*)\n?/
+const CONTAINER_INFO = /^ {0,3}:{3,}[ \t]*([\w-]+)[ \t]*(?:\[([^\]]*)\]|(.*?))\r?$/
+
+export function calloutKind(label: string): CalloutKind {
+  return KINDS[label.toLowerCase()] ?? 'custom'
+}
+
+/** `'deprecated'` → `'Deprecated'` */
+export function calloutTitle(marker: CalloutMarker): string {
+  return marker.title || marker.label[0]!.toUpperCase() + marker.label.slice(1)
+}
+
+/** Lê a linha de abertura de um container (`:::tip Título` ou `:::tip[Título]`) */
+export function parseContainerInfo(line: string): CalloutMarker | undefined {
+  const match = line.match(CONTAINER_INFO)
+  if (!match) return undefined
+  const title = (match[2] ?? match[3] ?? '').trim()
+  return { label: match[1]!.toLowerCase(), ...(title ? { title } : {}) }
+}
+
+/**
+ * Remove o marcador do início do primeiro parágrafo de um blockquote
+ * (`[!WARNING] Título` ou `**Note:**`). Devolve `null` quando não há marcador;
+ * senão o marcador e os nós restantes do parágrafo.
+ */
+export function readCalloutMarker(
+  nodes: InlineNode[],
+): { marker: CalloutMarker; inline: InlineNode[] } | null {
+  const [first, ...rest] = nodes
+  let marker: CalloutMarker
+
+  if (first?.type === 'text') {
+    const match = first.value.match(ALERT_MARKER)
+    if (!match) return null
+    const title = match[2]!.trim()
+    marker = { label: match[1]!.toLowerCase(), ...(title ? { title } : {}) }
+    rest.unshift({ type: 'text', value: first.value.slice(match[0].length) })
+  } else if (first?.type === 'strong') {
+    const strong = first.children.length === 1 ? first.children[0] : undefined
+    const label = strong?.type === 'text' ? strong.value.trim().replace(/:$/, '') : ''
+    if (!BOLD_LABELS.has(label.toLowerCase())) return null
+    marker = { label: label.toLowerCase() }
+    const next = rest[0]
+    if (next?.type === 'text') next.value = next.value.replace(/^:/, '')
+  } else {
+    return null
+  }
+
+  const head = rest[0]
+  if (head?.type === 'text') head.value = head.value.trimStart()
+  return { marker, inline: rest.filter((n) => n.type !== 'text' || n.value !== '') }
+}
@@ -0,0 +1,105 @@
+import { test, expect, describe, beforeAll, afterAll } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { createCorpus, parseCorpus, type Corpus } from './corpus'
+import { parseMarkdown } from './parser'
+
+let dir: string
+let corpus: Corpus
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'mdxtractor-corpus-'))
+  await Bun.write(
+    join(dir, 'components/button.md'),
+    '# Button\n\n## Props\n\n| Prop | Type |\n| --- | --- |\n| size | `string` |\n\n```tsx\nimport { Button } from "@ui/button"\n```',
+  )
+  await Bun.write(
+    join(dir, 'components/dialog.mdx'),
+    '---\ntitle: Dialog\nslug: modal\n---\n\nimport { Dialog } from "@ui/dialog"\n\n<ComponentPreview name="dialog-demo" />\n\n```ts\nconst open = true\n```',
+  )
+  await Bun.write(join(dir, 'guides/intro.md'), '# Intro\n\nSee the **Button** docs.')
+  await Bun.write(join(dir, 'node_modules/pkg/readme.md'), '# Ignored')
+  await Bun.write(join(dir, 'notes.txt'), 'not markdown')
+  corpus = await parseCorpus(dir)
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+// ── parseCorpus ────────────────────────────────────────────────
+
+describe('parseCorpus', () => {
+  test('diretório lê .md e .mdx em ordem, ignorando node_modules', () => {
+    expect(corpus.docs.map((d) => d.title)).toEqual(['Button', 'Dialog', 'Intro'])
+    expect(corpus.total).toBe(corpus.docs.reduce((n, d) => n + d.sections.length, 0))
+  })
+
+  test('mdx é detectado por arquivo', () => {
+    expect(corpus.byType('jsx').map((m) => m.doc.title)).toEqual(['Dialog'])
+  })
+
+  test('aceita glob relativo ao cwd', async () => {
+    const mdx = await parseCorpus('components/*.mdx', { cwd: dir })
+    expect(mdx.docs.map((d) => d.title)).toEqual(['Dialog'])
+    const all = await parseCorpus('**/*.md', { cwd: dir, ignore: [] })
+    expect(all.docs.map((d) => d.title)).toEqual(['Button', 'Intro', 'Ignored'])
+  })
+
+  test('aceita glob absoluto', async () => {
+    const md = await parseCorpus(join(dir, 'components/*.md'))
+    expect(md.docs.map((d) => [d.title, d.source])).toEqual([
+      ['Button', join(dir, 'components/button.md')],
+    ])
+    const all = await parseCorpus(join(dir, '**/*.md'))
+    expect(all.docs.map((d) => d.title)).toEqual(['Button', 'Intro'])
+  })
+
+  test('diretório vazio gera corpus vazio', async () => {
+    const empty = await parseCorpus('guides/*.mdx', { cwd: dir })
+    expect(empty.docs).toEqual([])
+    expect(empty.components()).toEqual([])
+  })
+})
+
+// ── Consultas ──────────────────────────────────────────────────
+
+describe('consultas do corpus', () => {
+  test('byType e byLang trazem o documento de origem', () => {
+    const tables = corpus.byType('table')
+    expect(tables).toHaveLength(1)
+    expect(tables[0]!.doc.title).toBe('Button')
+    expect(tables[0]!.section.rows[0]!['Prop']).toBe('size')
+    expect(corpus.byLang('ts').map((m) => [m.doc.title, m.section.lang])).toEqual([
+      ['Button', 'tsx'],
+      ['Dialog', 'ts'],
+    ])
+  })
+
+  test('search procura em todos os documentos', () => {
+    const sources = corpus.search('button').map((r) => corpus.byPath(r.source)?.title)
+    expect(sources.toSorted()).toEqual(['Button', 'Button', 'Intro'])
+  })
+
+  test('busca por caminho e por slug', () => {
+    expect(corpus.byPath(join(dir, 'guides/intro.md'))!.title).toBe('Intro')
+    expect(corpus.bySlug('button')!.title).toBe('Button')
+    expect(corpus.bySlug('modal')!.title).toBe('Dialog')
+    expect(corpus.bySlug('dialog')).toBeUndefined()
+    expect(corpus.byPath('missing.md')).toBeUndefined()
+  })
+
+  test('components extrai de todos os documentos', () => {
+    const components = corpus.components()
+    expect(components.map((c) => c.name)).toEqual(['Button', 'Dialog', 'Intro'])
+    expect(components[1]!.demos[0]!.name).toBe('dialog-demo')
+  })
+
+  test('createCorpus aceita docs já parseadas', async () => {
+    const docs = [await parseMarkdown('# A', 'a.md'), await parseMarkdown('# B', 'x/b.md')]
+    const custom = createCorpus(docs)
+    expect(custom.bySlug('b')!.title).toBe('B')
+    expect(custom.byType('heading')).toHaveLength(2)
+  })
+})
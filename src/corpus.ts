@@ -0,0 +1,128 @@
+/**
+ * Corpus - Coleção de docs parseadas a partir de um diretório ou glob
+ * Consultas cruzando todos os documentos (byType, byLang, search, componentes)
+ */
+
+import { stat } from 'node:fs/promises'
+import { basename, dirname, extname, isAbsolute, join, resolve } from 'node:path'
+import { extractComponents, type ExtractedComponent, type ExtractOptions } from './extractor'
+import {
+  parseFile,
+  type CodeSection,
+  type ParsedDoc,
+  type ParseFileOptions,
+  type Section,
+  type SectionType,
+} from './parser'
+import {
+  createSearchIndex,
+  type SearchIndex,
+  type SearchOptions,
+  type SearchResult,
+} from './search'
+
+export interface CorpusOptions extends ParseFileOptions {
+  /** Diretório base do glob (padrão: diretório atual) */
+  cwd?: string
+  /** Globs ignorados, relativos ao diretório escaneado (padrão: `['**\/node_modules/**']`) */
+  ignore?: string[]
+}
+
+/** Seção encontrada numa consulta do corpus, junto do documento de origem */
+export interface CorpusMatch<S extends Section = Section> {
+  doc: ParsedDoc
+  section: S
+}
+
+export interface Corpus {
+  docs: ParsedDoc[]
+  /** Total de seções em todos os documentos */
+  total: number
+  byType: <T extends SectionType>(type: T) => CorpusMatch<Extract<Section, { type: T }>>[]
+  byLang: (lang: string) => CorpusMatch<CodeSection>[]
+  /** Busca ranqueada em todos os documentos (`result.source` identifica o documento) */
+  search: (query: string, options?: SearchOptions) => SearchResult[]
+  /** Documento pelo caminho (relativo ao diretório atual ou absoluto) */
+  byPath: (path: string) => ParsedDoc | undefined
+  /** Documento pelo slug: `frontmatter.slug`, senão o nome do arquivo sem extensão */
+  bySlug: (slug: string) => ParsedDoc | undefined
+  /** `extractComponents` de todos os documentos */
+  components: (options?: ExtractOptions) => ExtractedComponent[]
+}
+
+const DOC_GLOB = '**/*.{md,mdx}'
+const DEFAULT_IGNORE = ['**/node_modules/**']
+const GLOB_CHARS = /[*?[\]{}!]/
+
+/**
+ * Separa o prefixo fixo de um glob absoluto do resto: `Bun.Glob` casa caminhos
+ * relativos ao `cwd` do scan (`/tmp/docs/**\/*.md` → `/tmp/docs` e `**\/*.md`)
+ */
+function splitGlob(pattern: string): { root: string; glob: string } {
+  const segments = pattern.split('/')
+  const first = segments.findIndex((segment) => GLOB_CHARS.test(segment))
+  if (first === -1) return { root: dirname(pattern), glob: basename(pattern) }
+  return { root: segments.slice(0, first).join('/') || '/', glob: segments.slice(first).join('/') }
+}
+
+/** `frontmatter.slug`, senão o nome do arquivo sem extensão (`docs/button.mdx` → `button`) */
+export function docSlug(doc: ParsedDoc): string {
+  const slug = doc.frontmatter['slug']
+  if (typeof slug === 'string' && slug) return slug
+  return basename(doc.source, extname(doc.source))
+}
+
+/**
+ * Monta um corpus a partir de documentos já parseados
+ */
+export function createCorpus(docs: ParsedDoc[]): Corpus {
+  const matches = <S extends Section>(pick: (doc: ParsedDoc) => S[]) =>
+    docs.flatMap((doc) => pick(doc).map((section) => ({ doc, section })))
+  let index: SearchIndex | undefined
+
+  return {
+    docs,
+    total: docs.reduce((sum, doc) => sum + doc.total, 0),
+    byType: <T extends SectionType>(type: T) => matches((doc) => doc.byType(type)),
+    byLang: (lang: string) => matches((doc) => doc.byLang(lang)),
+    search: (query: string, options?: SearchOptions) => {
+      index ??= createSearchIndex(docs)
+      return index.search(query, options)
+    },
+    byPath: (path: string) => {
+      const target = resolve(path)
+      return docs.find((doc) => resolve(doc.source) === target)
+    },
+    bySlug: (slug: string) => docs.find((doc) => docSlug(doc) === slug),
+    components: (options?: ExtractOptions) =>
+      docs.flatMap((doc) => extractComponents(doc, options)),
+  }
+}
+
+/**
+ * Parseia todos os `.md`/`.mdx` de um diretório, ou os arquivos de um glob relativo
+ * ao `cwd` ou absoluto (`'docs/components/*.mdx'`), em ordem alfabética de caminho
+ */
+export async function parseCorpus(pattern: string, options: CorpusOptions = {}): Promise<Corpus> {
+  const { cwd = '.', ignore = DEFAULT_IGNORE, ...parseOptions } = options
+  const target = isAbsolute(pattern) ? pattern : join(cwd, pattern)
+  const isDirectory = await stat(target).then(
+    (s) => s.isDirectory(),
+    () => false,
+  )
+  const split = isAbsolute(pattern) ? splitGlob(pattern) : { root: cwd, glob: pattern }
+  const root = isDirectory ? target : split.root
+  const glob = new Bun.Glob(isDirectory ? DOC_GLOB : split.glob)
+  const ignored = ignore.map((p) => new Bun.Glob(p))
+
+  const paths: string[] = []
+  for await (const path of glob.scan({ cwd: root, onlyFiles: true })) {
+    if (!ignored.some((g) => g.match(path))) paths.push(path)
+  }
+
+  const docs: ParsedDoc[] = []
+  for (const path of paths.toSorted()) {
+    docs.push(await parseFile(join(root, path), parseOptions))
+  }
+  return createCorpus(docs)
+}
@@ -0,0 +1,132 @@
+import { test, expect, describe, beforeAll, afterAll } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { crawlDocs } from './crawl'
+
+const pages: Record<string, string> = {
+  '/ui/README.md': [
+    '# UI',
+    '',
+    '- [Button](./docs/button.md)',
+    '- [Dialog](docs/dialog.md#api)',
+    '- [Button again](./docs/button.md#props)',
+    '- [Broken](./docs/missing.md)',
+    '- [Changelog](https://other.dev/ui/CHANGELOG.md)',
+    '- [Outside](../other/README.md)',
+    '- [Site](https://example.com)',
+  ].join('\n'),
+  '/ui/docs/button.md': '# Button\n\nSee [Dialog](./dialog.md) and [Tabs](./tabs.md).',
+  '/ui/docs/dialog.md': '# Dialog\n\nBack to [index](../README.md).',
+  '/ui/docs/tabs.md': '# Tabs\n\nSee [Accordion](./accordion.md).',
+  '/ui/docs/accordion.md': '# Accordion',
+  '/other/README.md': '# Other',
+}
+
+let server: ReturnType<typeof Bun.serve>
+let base: string
+let dir: string
+let active = 0
+let peak = 0
+
+beforeAll(async () => {
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const page = pages[new URL(req.url).pathname]
+      if (page === undefined) return new Response('not found', { status: 404 })
+      active++
+      peak = Math.max(peak, active)
+      await Bun.sleep(10)
+      active--
+      return new Response(page, { headers: { 'content-type': 'text/markdown' } })
+    },
+  })
+  base = server.url.href.replace(/\/$/, '')
+
+  dir = await mkdtemp(join(tmpdir(), 'mdxtractor-crawl-'))
+  for (const [path, content] of Object.entries(pages)) await Bun.write(join(dir, path), content)
+})
+
+afterAll(async () => {
+  server.stop(true)
+  await rm(dir, { recursive: true, force: true })
+})
+
+// ── URLs ───────────────────────────────────────────────────────
+
+describe('crawlDocs com URLs', () => {
+  test('segue links Markdown relativos, sem repetir documentos', async () => {
+    const { docs, errors } = await crawlDocs(`${base}/ui/README.md`, { retries: 0 })
+    expect(docs.map((d) => d.title)).toEqual(['UI', 'Button', 'Dialog', 'Tabs', 'Accordion'])
+    expect(errors.map((e) => [e.source, e.from])).toEqual([
+      [`${base}/ui/docs/missing.md`, `${base}/ui/README.md`],
+    ])
+    expect(errors[0]!.error.message).toContain(': 404')
+  })
+
+  test('grafo de links por source', async () => {
+    const { graph } = await crawlDocs(`${base}/ui/README.md`, { retries: 0 })
+    expect(graph.get(`${base}/ui/README.md`)).toEqual([
+      `${base}/ui/docs/button.md`,
+      `${base}/ui/docs/dialog.md`,
+      `${base}/ui/docs/missing.md`,
+    ])
+    expect(graph.get(`${base}/ui/docs/dialog.md`)).toEqual([`${base}/ui/README.md`])
+    expect(graph.get(`${base}/ui/docs/accordion.md`)).toEqual([])
+  })
+
+  test('depth limita os níveis seguidos', async () => {
+    const { docs, graph } = await crawlDocs(`${base}/ui/README.md`, { depth: 1, retries: 0 })
+    expect(docs.map((d) => d.title)).toEqual(['UI', 'Button', 'Dialog'])
+    // Links do último nível ficam no grafo mesmo sem serem lidos
+    expect(graph.get(`${base}/ui/docs/button.md`)).toContain(`${base}/ui/docs/tabs.md`)
+    const only = await crawlDocs(`${base}/ui/README.md`, { depth: 0 })
+    expect(only.docs.map((d) => d.title)).toEqual(['UI'])
+  })
+
+  test('prefix restringe os caminhos seguidos', async () => {
+    const { docs } = await crawlDocs(`${base}/ui/docs/button.md`, { prefix: '/ui/docs/' })
+    expect(docs.map((d) => d.title)).toEqual(['Button', 'Dialog', 'Tabs', 'Accordion'])
+    const open = await crawlDocs(`${base}/ui/docs/dialog.md`, { prefix: false, depth: 1 })
+    expect(open.docs.map((d) => d.title)).toEqual(['Dialog', 'UI'])
+  })
+
+  test('sameOrigin ignora outros hosts', async () => {
+    const { graph } = await crawlDocs(`${base}/ui/README.md`, { prefix: false, depth: 0 })
+    expect(graph.get(`${base}/ui/README.md`)).toContain(`${base}/other/README.md`)
+    expect(graph.get(`${base}/ui/README.md`)).not.toContain('https://other.dev/ui/CHANGELOG.md')
+  })
+
+  test('concurrency limita downloads simultâneos', async () => {
+    peak = 0
+    await crawlDocs(`${base}/ui/README.md`, { concurrency: 1, retries: 0 })
+    expect(peak).toBe(1)
+    peak = 0
+    await crawlDocs(`${base}/ui/README.md`, { concurrency: 3, retries: 0 })
+    // button e dialog juntos; missing.md responde 404 sem esperar
+    expect(peak).toBe(2)
+  })
+
+  test('falha na entrada lança erro', async () => {
+    await expect(crawlDocs(`${base}/nope.md`, { retries: 0 })).rejects.toThrow(': 404')
+  })
+})
+
+// ── Caminhos locais ────────────────────────────────────────────
+
+describe('crawlDocs com arquivos', () => {
+  test('segue links a partir de um arquivo local', async () => {
+    const { docs, graph, errors } = await crawlDocs(join(dir, 'ui/README.md'))
+    expect(docs.map((d) => d.title)).toEqual(['UI', 'Button', 'Dialog', 'Tabs', 'Accordion'])
+    expect(errors.map((e) => e.error.message)).toEqual([
+      `File not found: ${join(dir, 'ui/docs/missing.md')}`,
+    ])
+    expect(graph.get(join(dir, 'ui/docs/dialog.md'))).toEqual([join(dir, 'ui/README.md')])
+  })
+
+  test('prefix false permite sair do diretório da entrada', async () => {
+    const { docs } = await crawlDocs(join(dir, 'ui/README.md'), { prefix: false, depth: 1 })
+    expect(docs.map((d) => d.title)).toContain('Other')
+  })
+})
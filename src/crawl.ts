@@ -0,0 +1,186 @@
+/**
+ * Crawl - Segue os links Markdown a partir de um documento de entrada
+ * Funciona com URLs (via fetchDocs) e caminhos locais (via parseFile)
+ */
+
+import { dirname, isAbsolute, join, resolve, sep } from 'node:path'
+import { normalizeDocsUrl } from './fetch'
+import { decodeHref, isExternalHref } from './href'
+import { fetchDocs, parseFile, type FetchDocsOptions, type ParsedDoc } from './parser'
+
+export interface CrawlOptions extends FetchDocsOptions {
+  /** Quantos níveis de links seguir a partir da entrada (padrão: 3; `0` só lê a entrada) */
+  depth?: number
+  /** Só segue URLs da mesma origem da entrada (padrão: `true`) */
+  sameOrigin?: boolean
+  /**
+   * Só segue documentos sob este prefixo: URL, caminho da URL (`/docs/`) ou diretório local.
+   * Padrão: o diretório da entrada; `false` desliga.
+   */
+  prefix?: string | false
+  /** Documentos baixados ao mesmo tempo (padrão: 4) */
+  concurrency?: number
+  /** Raiz dos links absolutos (`/docs/a.md`) em documentos locais (padrão: diretório atual) */
+  root?: string
+}
+
+export interface CrawlError {
+  /** URL ou caminho que falhou */
+  source: string
+  /** Documento que linkou para ele */
+  from: string
+  error: Error
+}
+
+export interface CrawlResult {
+  /** Documentos lidos, em ordem de descoberta (largura primeiro) */
+  docs: ParsedDoc[]
+  /**
+   * Grafo de links: `source` → documentos linkados que passam nos filtros
+   * (inclusive os que ficaram além de `depth` ou falharam)
+   */
+  graph: Map<string, string[]>
+  /** Documentos linkados que não puderam ser lidos; a entrada lança erro */
+  errors: CrawlError[]
+}
+
+const DEFAULT_DEPTH = 3
+const DEFAULT_CONCURRENCY = 4
+const REMOTE = /^https?:\/\//i
+const MARKDOWN = /\.mdx?$/i
+
+interface Target {
+  /** Chave de deduplicação: URL sem hash/query ou caminho absoluto */
+  key: string
+  /** Onde ler: URL ou caminho local */
+  source: string
+}
+
+async function pool<T>(items: T[], concurrency: number, run: (item: T) => Promise<void>) {
+  let next = 0
+  const worker = async () => {
+    while (next < items.length) await run(items[next++]!)
+  }
+  await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, worker))
+}
+
+/**
+ * Lê o documento de entrada e segue seus links relativos para outros `.md`/`.mdx`,
+ * nível por nível, sem repetir documentos.
+ *
+ * ```ts
+ * const { docs, graph } = await crawlDocs('https://github.com/org/ui/blob/main/README.md', {
+ *   depth: 2,
+ *   prefix: '/org/ui/main/docs/',
+ * })
+ * const corpus = createCorpus(docs)
+ * ```
+ */
+export async function crawlDocs(entry: string, options: CrawlOptions = {}): Promise<CrawlResult> {
+  const {
+    depth = DEFAULT_DEPTH,
+    sameOrigin = true,
+    concurrency = DEFAULT_CONCURRENCY,
+    root = '.',
+    prefix: prefixOption,
+    ...readOptions
+  } = options
+  const remote = REMOTE.test(entry)
+  const start: Target = remote
+    ? { key: normalizeDocsUrl(entry).replace(/[?#].*$/, ''), source: entry }
+    : { key: resolve(entry), source: entry }
+  const origin = remote ? new URL(start.key).origin : undefined
+
+  // Prefixo padrão: o diretório da entrada
+  let prefix: string | undefined
+  if (prefixOption !== false) {
+    if (remote) {
+      const value = prefixOption ?? new URL('.', start.key).href
+      prefix = REMOTE.test(value) ? value : new URL(value, start.key).href
+    } else {
+      prefix = resolve(prefixOption ?? dirname(start.key))
+    }
+  }
+
+  const allowed = (key: string) => {
+    if (remote) {
+      if (!REMOTE.test(key)) return false
+      if (sameOrigin && new URL(key).origin !== origin) return false
+      return !prefix || key.startsWith(prefix)
+    }
+    return !prefix || key === prefix || key.startsWith(prefix.endsWith(sep) ? prefix : prefix + sep)
+  }
+
+  /** Documento Markdown para onde o link aponta, se ele deve ser seguido */
+  const targetOf = (doc: ParsedDoc, href: string): Target | undefined => {
+    if (!href || href.startsWith('#')) return undefined
+    if (remote) {
+      // fetchDocs já resolveu os links relativos contra a URL do documento
+      if (!REMOTE.test(href)) return undefined
+      const key = normalizeDocsUrl(href).replace(/[?#].*$/, '')
+      if (!MARKDOWN.test(new URL(key).pathname) || !allowed(key)) return undefined
+      return { key, source: key }
+    }
+    if (isExternalHref(href)) return undefined
+    const path = decodeHref(href.replace(/[?#].*$/, ''))
+    if (!MARKDOWN.test(path)) return undefined
+    const source = isAbsolute(path) ? join(root, path) : join(dirname(doc.source), path)
+    const key = resolve(source)
+    return allowed(key) ? { key, source } : undefined
+  }
+
+  /** Links seguíveis do documento, sem repetição */
+  const targetsOf = (doc: ParsedDoc): Target[] => {
+    const targets = new Map<string, Target>()
+    for (const link of doc.links) {
+      const target = targetOf(doc, link.href)
+      if (target && !targets.has(target.key)) targets.set(target.key, target)
+    }
+    return [...targets.values()]
+  }
+
+  const read = (source: string) =>
+    remote ? fetchDocs(source, readOptions) : parseFile(source, readOptions)
+
+  const found = new Map<string, ParsedDoc>([[start.key, await read(start.source)]])
+  const seen = new Set([start.key])
+  const errors: CrawlError[] = []
+  let level = [start.key]
+
+  for (let d = 0; d < depth && level.length > 0; d++) {
+    const queue: { target: Target; from: ParsedDoc }[] = []
+    for (const key of level) {
+      const from = found.get(key)!
+      for (const target of targetsOf(from)) {
+        if (seen.has(target.key)) continue
+        seen.add(target.key)
+        queue.push({ target, from })
+      }
+    }
+
+    const results = new Map<string, ParsedDoc | Error>()
+    await pool(queue, concurrency, async ({ target }) => {
+      results.set(target.key, await read(target.source).catch((error: Error) => error))
+    })
+    // Ordem de descoberta, independente de qual download terminou primeiro
+    level = []
+    for (const { target, from } of queue) {
+      const result = results.get(target.key)!
+      if (result instanceof Error) {
+        errors.push({ source: target.source, from: from.source, error: result })
+        continue
+      }
+      found.set(target.key, result)
+      level.push(target.key)
+    }
+  }
+
+  const graph = new Map<string, string[]>()
+  for (const doc of found.values()) {
+    graph.set(
+      doc.source,
+      targetsOf(doc).map((t) => found.get(t.key)?.source ?? t.source),
+    )
+  }
+  return { docs: [...found.values()], graph, errors }
+}
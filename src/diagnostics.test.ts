@@ -0,0 +1,135 @@
+import { test, expect, describe } from 'bun:test'
+import { addDiagnostic, type Diagnostic } from './diagnostics'
+import { parseFile, parseMarkdown } from './parser'
+
+const codes = (diagnostics: Diagnostic[]) => diagnostics.map((d) => d.code)
+
+// ── Headings ───────────────────────────────────────────────────
+
+describe('headings', () => {
+  test('documento sem H1 avisa que o título cai no source', async () => {
+    const doc = await parseMarkdown('## Uso\n\nTexto', 'button.md')
+    expect(doc.diagnostics).toEqual([
+      {
+        severity: 'warning',
+        code: 'missing-h1',
+        message: 'Document has no H1 heading; the title falls back to "button.md"',
+        position: {
+          start: { line: 1, column: 1, offset: 0, byteOffset: 0 },
+          end: { line: 1, column: 1, offset: 0, byteOffset: 0 },
+        },
+      },
+    ])
+  })
+
+  test('title do frontmatter dispensa o H1', async () => {
+    const doc = await parseMarkdown('---\ntitle: Button\n---\n\n## Uso')
+    expect(doc.diagnostics).toEqual([])
+  })
+
+  test('mais de um H1', async () => {
+    const doc = await parseMarkdown('# Button\n\n# Outro')
+    expect(codes(doc.diagnostics)).toEqual(['multiple-h1'])
+    expect(doc.diagnostics[0]!.message).toBe('Multiple H1 headings: "Outro" after "Button"')
+    expect(doc.diagnostics[0]!.position.start.line).toBe(3)
+    expect(doc.diagnostics[0]!.section).toBe(doc.headings[1]!)
+  })
+
+  test('nível de heading pulado', async () => {
+    const doc = await parseMarkdown('# A\n\n### B\n\n## C\n\n#### D\n\n## E')
+    expect(doc.diagnostics.map((d) => [d.code, d.position.start.line])).toEqual([
+      ['heading-level-skip', 3],
+      ['heading-level-skip', 7],
+    ])
+    expect(doc.diagnostics[1]!.message).toBe('Heading level skips from H2 to H4: "D"')
+  })
+})
+
+// ── Tabelas ────────────────────────────────────────────────────
+
+describe('tabelas', () => {
+  test('linhas com células a mais ou a menos apontam a linha', async () => {
+    const md = '# T\n\n| A | B | C |\n| - | - | - |\n| 1 | 2 | 3 |\n| 1 | 2 |\n| 1 | 2 | 3 | 4 |'
+    const doc = await parseMarkdown(md)
+    expect(doc.diagnostics.map((d) => [d.code, d.position.start.line, d.message])).toEqual([
+      [
+        'table-cell-count',
+        6,
+        'Table row has 2 cells but the header has 3; missing cells are empty',
+      ],
+      [
+        'table-cell-count',
+        7,
+        'Table row has 4 cells but the header has 3; extra cells are dropped',
+      ],
+    ])
+    const [row] = doc.diagnostics
+    expect(md.slice(row!.position.start.offset, row!.position.end.offset)).toBe('| 1 | 2 |')
+  })
+
+  test('pipes escapados e CRLF não contam como células', async () => {
+    const doc = await parseMarkdown('# T\r\n\r\n| A | B |\r\n| - | - |\r\n| `a \\| b` | 2 |\r\n')
+    expect(doc.diagnostics).toEqual([])
+  })
+
+  test('headers duplicados', async () => {
+    const doc = await parseMarkdown('# T\n\n| Prop | Type | Prop |\n| - | - | - |\n| a | b | c |')
+    expect(codes(doc.diagnostics)).toEqual(['duplicate-table-header'])
+    expect(doc.diagnostics[0]!.severity).toBe('error')
+  })
+})
+
+// ── Code blocks ────────────────────────────────────────────────
+
+describe('code blocks', () => {
+  test('code block vazio e fence sem linguagem', async () => {
+    const doc = await parseMarkdown('# C\n\n```ts\n```\n\n```\nconst a = 1\n```\n\n    indentado')
+    expect(doc.diagnostics.map((d) => [d.severity, d.code, d.position.start.line])).toEqual([
+      ['warning', 'empty-code-block', 3],
+      ['info', 'unlabelled-code-fence', 6],
+    ])
+  })
+
+  test('fences em listas não são verificados pela linha', async () => {
+    const doc = await parseMarkdown('# C\n\n- item\n\n  ```\n  code\n  ```')
+    expect(doc.diagnostics).toEqual([])
+  })
+})
+
+// ── report ─────────────────────────────────────────────────────
+
+describe('doc.report', () => {
+  test('adiciona em ordem de posição, sem repetir', async () => {
+    const doc = await parseMarkdown('## A\n\n# B\n\n# C')
+    const diagnostic: Diagnostic = {
+      severity: 'error',
+      code: 'custom',
+      message: 'Custom problem',
+      position: doc.headings[1]!.position,
+    }
+    doc.report(diagnostic)
+    doc.report({ ...diagnostic })
+    expect(codes(doc.diagnostics)).toEqual(['custom', 'multiple-h1'])
+  })
+
+  test('addDiagnostic funciona com qualquer lista', () => {
+    const list: Diagnostic[] = []
+    const at = (offset: number) => ({
+      start: { line: 1, column: offset + 1, offset, byteOffset: offset },
+      end: { line: 1, column: offset + 1, offset, byteOffset: offset },
+    })
+    addDiagnostic(list, { severity: 'info', code: 'b', message: 'b', position: at(5) })
+    addDiagnostic(list, { severity: 'info', code: 'a', message: 'a', position: at(1) })
+    expect(codes(list)).toEqual(['a', 'b'])
+  })
+})
+
+// ── Stream ─────────────────────────────────────────────────────
+
+test('parseFile em stream gera os mesmos diagnósticos', async () => {
+  const path = `${import.meta.dir}/../README.md`
+  const doc = await parseFile(path)
+  const streamed = await parseFile(path, { stream: true })
+  const strip = (d: Diagnostic) => [d.code, d.message, d.position]
+  expect(streamed.diagnostics.map(strip)).toEqual(doc.diagnostics.map(strip))
+})
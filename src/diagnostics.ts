@@ -0,0 +1,204 @@
+/**
+ * Diagnostics - Problemas estruturais encontrados no documento
+ * Cada diagnóstico tem severidade, código, mensagem e posição no texto original
+ */
+
+import { parseFenceInfo } from './fence'
+import type { Frontmatter } from './frontmatter'
+import type { HeadingSection, Section } from './parser'
+import {
+  countCells,
+  DOC_START,
+  isTableDelimiter,
+  utf8Length,
+  type Point,
+  type Position,
+} from './scanner'
+
+export type DiagnosticSeverity = 'error' | 'warning' | 'info'
+
+export interface Diagnostic {
+  severity: DiagnosticSeverity
+  /** Identificador estável do problema (`'multiple-h1'`, `'table-cell-count'`...) */
+  code: string
+  message: string
+  position: Position
+  /** Seção onde o problema está, quando há uma */
+  section?: Section
+}
+
+function sameDiagnostic(a: Diagnostic, b: Diagnostic): boolean {
+  return (
+    a.code === b.code &&
+    a.message === b.message &&
+    a.position.start.offset === b.position.start.offset
+  )
+}
+
+/**
+ * Adiciona um diagnóstico mantendo a ordem do documento; um diagnóstico
+ * igual (mesmo código, mensagem e posição) não é repetido
+ */
+export function addDiagnostic(diagnostics: Diagnostic[], diagnostic: Diagnostic): void {
+  if (diagnostics.some((d) => sameDiagnostic(d, diagnostic))) return
+  const offset = diagnostic.position.start.offset
+  const index = diagnostics.findIndex((d) => d.position.start.offset > offset)
+  if (index === -1) diagnostics.push(diagnostic)
+  else diagnostics.splice(index, 0, diagnostic)
+}
+
+function headingDiagnostics(
+  headings: HeadingSection[],
+  source: string,
+  frontmatter: Frontmatter,
+): Diagnostic[] {
+  const diagnostics: Diagnostic[] = []
+  const h1s = headings.filter((h) => h.level === 1)
+
+  if (h1s.length === 0 && !frontmatter.title) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'missing-h1',
+      message: `Document has no H1 heading; the title falls back to "${source}"`,
+      position: DOC_START,
+    })
+  }
+  for (const heading of h1s.slice(1)) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'multiple-h1',
+      message: `Multiple H1 headings: "${heading.text}" after "${h1s[0]!.text}"`,
+      position: heading.position,
+      section: heading,
+    })
+  }
+
+  let previous: HeadingSection | undefined
+  for (const heading of headings) {
+    if (previous && heading.level > previous.level + 1) {
+      diagnostics.push({
+        severity: 'warning',
+        code: 'heading-level-skip',
+        message: `Heading level skips from H${previous.level} to H${heading.level}: "${heading.text}"`,
+        position: heading.position,
+        section: heading,
+      })
+    }
+    previous = heading
+  }
+
+  return diagnostics
+}
+
+/** Posição de uma linha inteira, a partir dos offsets do seu início */
+function linePosition(start: Omit<Point, 'column'>, text: string): Position {
+  return {
+    start: { ...start, column: 1 },
+    end: {
+      line: start.line,
+      column: text.length + 1,
+      offset: start.offset + text.length,
+      byteOffset: start.byteOffset + utf8Length(text),
+    },
+  }
+}
+
+function tableDiagnostics(content: string, section: Extract<Section, { type: 'table' }>) {
+  const diagnostics: Diagnostic[] = []
+  const expected = section.headers.length
+
+  const seen = new Set<string>()
+  for (const header of section.headers) {
+    if (seen.has(header)) {
+      diagnostics.push({
+        severity: 'error',
+        code: 'duplicate-table-header',
+        message: `Duplicate table header "${header}": later cells overwrite earlier ones in rows`,
+        position: section.position,
+        section,
+      })
+    }
+    seen.add(header)
+  }
+
+  // Contagem de células no texto original; tabelas dentro de listas/citações não têm linha própria
+  const { start, end } = section.position
+  const lines = content.slice(start.offset, end.offset).split('\n')
+  const [header = '', delimiter = ''] = lines.map((l) => l.replace(/\r$/, ''))
+  if (!isTableDelimiter(delimiter) || countCells(header) !== expected) return diagnostics
+  let offset = start.offset + lines[0]!.length + 1 + lines[1]!.length + 1
+  let byteOffset = start.byteOffset + utf8Length(`${lines[0]}\n${lines[1]}\n`)
+  for (const [i, raw] of lines.slice(2).entries()) {
+    const text = raw.replace(/\r$/, '')
+    const cells = countCells(text)
+    if (text.trim() && cells !== expected) {
+      const effect = cells < expected ? 'missing cells are empty' : 'extra cells are dropped'
+      diagnostics.push({
+        severity: 'warning',
+        code: 'table-cell-count',
+        message: `Table row has ${cells} cells but the header has ${expected}; ${effect}`,
+        position: linePosition({ line: start.line + 2 + i, offset, byteOffset }, text),
+        section,
+      })
+    }
+    offset += raw.length + 1
+    byteOffset += utf8Length(raw) + 1
+  }
+
+  return diagnostics
+}
+
+function codeDiagnostics(content: string, section: Extract<Section, { type: 'code' }>) {
+  const diagnostics: Diagnostic[] = []
+  if (!section.code.trim()) {
+    diagnostics.push({
+      severity: 'warning',
+      code: 'empty-code-block',
+      message: 'Code block is empty',
+      position: section.position,
+      section,
+    })
+  }
+
+  // Só fences de topo: a seção começa na linha do fence
+  const { start } = section.position
+  const lineEnd = content.indexOf('\n', start.offset)
+  const firstLine = content.slice(start.offset, lineEnd === -1 ? undefined : lineEnd)
+  const fence = parseFenceInfo(firstLine)
+  if (fence && !fence.lang) {
+    diagnostics.push({
+      severity: 'info',
+      code: 'unlabelled-code-fence',
+      message: 'Code fence has no language; it is reported as "text"',
+      position: section.position,
+      section,
+    })
+  }
+
+  return diagnostics
+}
+
+/**
+ * Diagnósticos estruturais do documento: H1 ausente ou repetido, níveis de heading
+ * pulados, linhas de tabela com células a mais/menos, headers duplicados,
+ * code blocks vazios e fences sem linguagem
+ */
+export function collectDiagnostics(
+  source: string,
+  content: string,
+  frontmatter: Frontmatter,
+  sections: Section[],
+): Diagnostic[] {
+  const headings = sections.filter((s): s is HeadingSection => s.type === 'heading')
+  const diagnostics: Diagnostic[] = []
+  for (const diagnostic of headingDiagnostics(headings, source, frontmatter)) {
+    addDiagnostic(diagnostics, diagnostic)
+  }
+  for (const section of sections) {
+    let found: Diagnostic[] = []
+    if (section.type === 'table') found = tableDiagnostics(content, section)
+    if (section.type === 'code') found = codeDiagnostics(content, section)
+    for (const diagnostic of found) addDiagnostic(diagnostics, diagnostic)
+  }
+  return diagnostics
+}
@@ -0,0 +1,185 @@
+import { test, expect, describe } from 'bun:test'
+import { diffComponents, diffDocs } from './diff'
+import { extractComponents } from './extractor'
+import { parseMarkdown } from './parser'
+
+const v1 = `# Button
+
+Botão básico.
+
+## Usage
+
+\`\`\`tsx
+<Button />
+\`\`\`
+
+## Props
+
+| Prop | Type | Default | Description |
+| --- | --- | --- | --- |
+| \`variant\` | \`'primary' \\| 'ghost'\` | \`'primary'\` | Estilo |
+| \`size\` | \`'sm' \\| 'md'\` | \`'md'\` | Tamanho |
+| \`loading\` | \`boolean\` | - | Mostra spinner |
+| \`asChild\` | \`boolean\` | \`false\` | Slot |
+
+## Legacy
+
+Texto antigo.
+`
+
+const v2 = `# Button
+
+Botão básico.
+
+## Usage
+
+\`\`\`tsx
+<Button variant="ghost" />
+\`\`\`
+
+\`\`\`tsx title="form.tsx"
+<Button type="submit" />
+\`\`\`
+
+## Props
+
+| Prop | Type | Default | Description |
+| --- | --- | --- | --- |
+| \`variant\` | \`'primary' \\| 'ghost' \\| 'link'\` | \`'ghost'\` | Estilo |
+| \`size\` | \`'sm' \\| 'lg'\` | \`'sm'\` | Tamanho |
+| \`loading*\` | \`boolean\` | - | Mostra spinner |
+| \`icon\` | \`ReactNode\` | | Ícone |
+| \`label\` | \`string\` | | Required. Texto acessível |
+`
+
+// ── diffDocs ───────────────────────────────────────────────────
+
+describe('diffDocs', () => {
+  test('pareia seções pelo caminho de headings e classifica as mudanças', async () => {
+    const diff = diffDocs(await parseMarkdown(v1, 'v1.md'), await parseMarkdown(v2, 'v2.md'))
+    expect(diff.changes.map((c) => [c.kind, c.key])).toEqual([
+      ['modified', '/button/usage::code'],
+      ['added', '/button/usage::code:form.tsx'],
+      ['modified', '/button/props::table'],
+      ['removed', '/button/legacy'],
+      ['removed', '/button/legacy::content'],
+    ])
+    expect([diff.added, diff.removed, diff.modified]).toEqual([1, 2, 2])
+    expect(diff.before).toBe('v1.md')
+    expect(diff.after).toBe('v2.md')
+  })
+
+  test('mudanças trazem as seções e o caminho', async () => {
+    const diff = diffDocs(await parseMarkdown(v1), await parseMarkdown(v2))
+    const [code] = diff.changes
+    expect(code!.path).toEqual(['Button', 'Usage'])
+    expect(code!.type).toBe('code')
+    expect(code!.before?.type === 'code' && code!.before.code).toBe('<Button />')
+    expect(code!.after?.type === 'code' && code!.after.code).toBe('<Button variant="ghost" />')
+    const removed = diff.changes.find((c) => c.kind === 'removed')!
+    expect(removed.after).toBeUndefined()
+    expect(removed.path).toEqual(['Button'])
+  })
+
+  test('ordem das seções do mesmo tipo e heading renomeado', async () => {
+    const before = await parseMarkdown('# A\n\n## Um\n\nx\n\ny\n\n## Dois\n\nz')
+    const after = await parseMarkdown('# A\n\n## Um\n\nx\n\ny2\n\n## Two\n\nz')
+    expect(diffDocs(before, after).changes.map((c) => [c.kind, c.key])).toEqual([
+      ['modified', '/a/um::content#2'],
+      ['removed', '/a/dois'],
+      ['removed', '/a/dois::content'],
+      ['added', '/a/two'],
+      ['added', '/a/two::content'],
+    ])
+  })
+
+  test('docs iguais não têm mudanças, mesmo com posições diferentes', async () => {
+    const diff = diffDocs(
+      await parseMarkdown('# A\n\ntexto'),
+      await parseMarkdown('\n\n# A\n\ntexto\n'),
+    )
+    expect(diff.changes).toEqual([])
+  })
+})
+
+// ── diffComponents ─────────────────────────────────────────────
+
+describe('diffComponents', () => {
+  const components = async () => {
+    const before = extractComponents(await parseMarkdown(v1, 'v1.md'))
+    const after = extractComponents(await parseMarkdown(v2, 'v2.md'))
+    return diffComponents(before, after)
+  }
+
+  test('props: removida, adicionada, tipo, default e obrigatoriedade', async () => {
+    const changes = (await components()).filter((c) => c.prop)
+    expect(changes.map((c) => [c.kind, c.prop, c.breaking])).toEqual([
+      ['prop-removed', 'asChild', true],
+      ['prop-type-changed', 'variant', false],
+      ['prop-default-changed', 'variant', true],
+      ['prop-type-changed', 'size', true],
+      ['prop-default-changed', 'size', true],
+      ['prop-required', 'loading', true],
+      ['prop-added', 'icon', false],
+      ['prop-added', 'label', true],
+    ])
+  })
+
+  test('mensagens e valores antes/depois', async () => {
+    const changes = await components()
+    const type = changes.find((c) => c.kind === 'prop-type-changed' && c.prop === 'size')!
+    expect(type).toMatchObject({
+      component: 'Button',
+      before: "'sm' | 'md'",
+      after: "'sm' | 'lg'",
+      message: `Type of Button prop "size" changed from "'sm' | 'md'" to "'sm' | 'lg'"`,
+    })
+    const label = changes.find((c) => c.prop === 'label')!
+    expect(label.message).toBe('Required prop "label" was added to Button')
+  })
+
+  test('exemplos adicionados, removidos e alterados não quebram', async () => {
+    const changes = (await components()).filter((c) => c.example)
+    expect(changes.map((c) => [c.kind, c.example, c.breaking])).toEqual([
+      ['example-changed', 'Usage.tsx', false],
+      ['example-added', 'form.tsx', false],
+    ])
+  })
+
+  test('ganhar default não quebra; perder quebra', async () => {
+    const table = (value: string) =>
+      `# Tabs\n\n| Prop | Type | Default |\n| - | - | - |\n| \`value\` | \`string\` | ${value} |`
+    const none = extractComponents(await parseMarkdown(table('-')))
+    const some = extractComponents(await parseMarkdown(table("`'a'`")))
+    expect(diffComponents(none, some).map((c) => [c.kind, c.breaking, c.after])).toEqual([
+      ['prop-default-changed', false, "'a'"],
+    ])
+    expect(diffComponents(some, none).map((c) => [c.kind, c.breaking, c.before])).toEqual([
+      ['prop-default-changed', true, "'a'"],
+    ])
+  })
+
+  test('união com membro função só ganhou membros: não quebra', async () => {
+    const table = (type: string) =>
+      `# Input\n\n| Prop | Type |\n| - | - |\n| \`onChange\` | \`${type}\` |`
+    const before = extractComponents(await parseMarkdown(table('(() => void) \\| string')))
+    const after = extractComponents(
+      await parseMarkdown(table('(() => void) \\| string \\| ((value: string) => void)')),
+    )
+    expect(diffComponents(before, after).map((c) => [c.kind, c.breaking])).toEqual([
+      ['prop-type-changed', false],
+    ])
+    expect(diffComponents(after, before).map((c) => [c.kind, c.breaking])).toEqual([
+      ['prop-type-changed', true],
+    ])
+  })
+
+  test('componentes adicionados e removidos', async () => {
+    const button = extractComponents(await parseMarkdown('# Button'))
+    const dialog = extractComponents(await parseMarkdown('# Dialog'))
+    expect(diffComponents(button, dialog).map((c) => [c.kind, c.component, c.breaking])).toEqual([
+      ['component-removed', 'Button', true],
+      ['component-added', 'Dialog', false],
+    ])
+  })
+})
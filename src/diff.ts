@@ -0,0 +1,357 @@
+/**
+ * Diff - Mudanças estruturais entre duas versões de uma doc
+ * Seções casadas por caminho de headings; componentes comparados prop a prop
+ */
+
+import type { CodeExample, ExtractedComponent, PropDefinition } from './extractor'
+import { slugify, type ParsedDoc, type Section, type SectionType } from './parser'
+
+export type ChangeKind = 'added' | 'removed' | 'modified'
+
+export interface SectionChange {
+  kind: ChangeKind
+  /** Chave de pareamento: slugs do caminho de headings + tipo e ordem da seção */
+  key: string
+  type: SectionType
+  /** Textos dos headings que contêm a seção (na versão nova, se existir) */
+  path: string[]
+  before?: Section
+  after?: Section
+}
+
+export interface DocDiff {
+  before: string
+  after: string
+  /** Mudanças na ordem do documento novo; removidas entram onde estavam */
+  changes: SectionChange[]
+  added: number
+  removed: number
+  modified: number
+}
+
+export type ComponentChangeKind =
+  | 'component-added'
+  | 'component-removed'
+  | 'prop-added'
+  | 'prop-removed'
+  | 'prop-type-changed'
+  | 'prop-default-changed'
+  | 'prop-required'
+  | 'prop-optional'
+  | 'example-added'
+  | 'example-removed'
+  | 'example-changed'
+
+export interface ComponentChange {
+  kind: ComponentChangeKind
+  component: string
+  /** Prop afetada (sem marcadores `*`/`?`) */
+  prop?: string
+  /** Exemplo afetado: filename, senão `título.lang` */
+  example?: string
+  before?: string
+  after?: string
+  /** Quebra quem usa o componente (prop removida, tipo mais restrito, nova prop obrigatória...) */
+  breaking: boolean
+  message: string
+}
+
+/** Chave de cada seção, na ordem do documento */
+function sectionKeys(doc: ParsedDoc): string[] {
+  const counts = new Map<string, number>()
+  const headingKeys = new Map<number, string>()
+
+  return doc.sections.map((section) => {
+    const parents = doc.breadcrumb(section)
+    const parent = parents.length > 0 ? headingKeys.get(parents.at(-1)!.idx)! : ''
+    const base =
+      section.type === 'heading'
+        ? `${parent}/${slugify(section.text)}`
+        : `${parent}::${section.type === 'code' && section.filename ? `code:${section.filename}` : section.type}`
+    const n = (counts.get(base) ?? 0) + 1
+    counts.set(base, n)
+    const key = n === 1 ? base : `${base}#${n}`
+    if (section.type === 'heading') headingKeys.set(section.idx, key)
+    return key
+  })
+}
+
+/**
+ * Compara duas versões de uma doc seção a seção. Seções são pareadas pelo caminho de
+ * headings (slugs) e pela ordem entre as do mesmo tipo sob o mesmo heading; um heading
+ * renomeado aparece como removido + adicionado.
+ */
+export function diffDocs(before: ParsedDoc, after: ParsedDoc): DocDiff {
+  const beforeKeys = sectionKeys(before)
+  const afterKeys = sectionKeys(after)
+  const afterIndex = new Map(afterKeys.map((key, i) => [key, i]))
+  const beforeIndex = new Map(beforeKeys.map((key, i) => [key, i]))
+
+  // Removidas ficam depois da última seção pareada que vinha antes delas
+  const removedAfter = new Map<number, SectionChange[]>()
+  let anchor = -1
+  beforeKeys.forEach((key, i) => {
+    const match = afterIndex.get(key)
+    if (match !== undefined) {
+      anchor = match
+      return
+    }
+    const section = before.sections[i]!
+    const list = removedAfter.get(anchor) ?? []
+    list.push({
+      kind: 'removed',
+      key,
+      type: section.type,
+      path: before.breadcrumb(section).map((h) => h.text),
+      before: section,
+    })
+    removedAfter.set(anchor, list)
+  })
+
+  const changes: SectionChange[] = [...(removedAfter.get(-1) ?? [])]
+  afterKeys.forEach((key, i) => {
+    const section = after.sections[i]!
+    const path = after.breadcrumb(section).map((h) => h.text)
+    const match = beforeIndex.get(key)
+    if (match === undefined) {
+      changes.push({ kind: 'added', key, type: section.type, path, after: section })
+    } else if (before.sections[match]!.raw !== section.raw) {
+      const previous = before.sections[match]!
+      changes.push({
+        kind: 'modified',
+        key,
+        type: section.type,
+        path,
+        before: previous,
+        after: section,
+      })
+    }
+    changes.push(...(removedAfter.get(i) ?? []))
+  })
+
+  const count = (kind: ChangeKind) => changes.filter((c) => c.kind === kind).length
+  return {
+    before: before.source,
+    after: after.source,
+    changes,
+    added: count('added'),
+    removed: count('removed'),
+    modified: count('modified'),
+  }
+}
+
+const clean = (text: string) => text.replace(/`/g, '').replace(/\s+/g, ' ').trim()
+
+/** Nome sem os marcadores de obrigatória/opcional (`variant*`, `size?`) */
+function propName(prop: PropDefinition): string {
+  return prop.name.replace(/[*?]$/, '').trim()
+}
+
+/** Marcada como obrigatória na doc (`name*`, coluna Required, "Required") */
+function isRequired(prop: PropDefinition): boolean {
+  return prop.required === true
+}
+
+/** Default real (ignora `-`, `—` e "required") */
+function defaultValue(prop: PropDefinition): string | undefined {
+  const value = clean(prop.default ?? '')
+  return value && !/^(?:-|—|–|required)$/i.test(value) ? value : undefined
+}
+
+/** Membros de uma união de topo (`'a' | 'b'`), fora de parênteses, colchetes e chaves */
+function unionMembers(type: string): string[] {
+  const members: string[] = []
+  let depth = 0
+  let current = ''
+  for (let i = 0; i < type.length; i++) {
+    const char = type[i]!
+    if ('([{<'.includes(char)) depth++
+    // O `>` de `=>` não fecha nada
+    if (')]}>'.includes(char) && !(char === '>' && type[i - 1] === '=')) depth--
+    if (char === '|' && depth === 0) {
+      members.push(current.trim())
+      current = ''
+      continue
+    }
+    current += char
+  }
+  members.push(current.trim())
+  return members.filter(Boolean)
+}
+
+/** Tipo novo aceita tudo o que o antigo aceitava: só ganhou membros na união */
+function isWidening(before: string, after: string): boolean {
+  const members = new Set(unionMembers(after))
+  return unionMembers(before).every((m) => members.has(m))
+}
+
+function exampleKey(example: CodeExample, counts: Map<string, number>): string {
+  const base = example.filename ?? `${example.title}.${example.lang}`
+  const n = (counts.get(base) ?? 0) + 1
+  counts.set(base, n)
+  return n === 1 ? base : `${base}#${n}`
+}
+
+function diffProps(component: string, before: PropDefinition[], after: PropDefinition[]) {
+  const changes: ComponentChange[] = []
+  const afterByName = new Map(after.map((p) => [propName(p), p]))
+  const beforeByName = new Map(before.map((p) => [propName(p), p]))
+
+  for (const [prop, old] of beforeByName) {
+    if (afterByName.has(prop)) continue
+    changes.push({
+      kind: 'prop-removed',
+      component,
+      prop,
+      before: clean(old.type),
+      breaking: true,
+      message: `Prop "${prop}" was removed from ${component}`,
+    })
+  }
+
+  for (const [prop, next] of afterByName) {
+    const old = beforeByName.get(prop)
+    if (!old) {
+      const required = isRequired(next)
+      changes.push({
+        kind: 'prop-added',
+        component,
+        prop,
+        after: clean(next.type),
+        breaking: required,
+        message: `${required ? 'Required prop' : 'Prop'} "${prop}" was added to ${component}`,
+      })
+      continue
+    }
+
+    const [oldType, newType] = [clean(old.type), clean(next.type)]
+    if (oldType !== newType) {
+      const widened = isWidening(oldType, newType)
+      changes.push({
+        kind: 'prop-type-changed',
+        component,
+        prop,
+        before: oldType,
+        after: newType,
+        breaking: !widened,
+        message: `Type of ${component} prop "${prop}" changed from "${oldType}" to "${newType}"`,
+      })
+    }
+
+    const [oldDefault, newDefault] = [defaultValue(old), defaultValue(next)]
+    if (oldDefault !== newDefault) {
+      changes.push({
+        kind: 'prop-default-changed',
+        component,
+        prop,
+        ...(oldDefault !== undefined ? { before: oldDefault } : {}),
+        ...(newDefault !== undefined ? { after: newDefault } : {}),
+        // Só ganhar um default não muda o comportamento de quem já passava a prop
+        breaking: oldDefault !== undefined,
+        message: `Default of ${component} prop "${prop}" changed from ${oldDefault ?? 'none'} to ${newDefault ?? 'none'}`,
+      })
+    }
+
+    const [wasRequired, required] = [isRequired(old), isRequired(next)]
+    if (wasRequired !== required) {
+      changes.push({
+        kind: required ? 'prop-required' : 'prop-optional',
+        component,
+        prop,
+        breaking: required,
+        message: `${component} prop "${prop}" is now ${required ? 'required' : 'optional'}`,
+      })
+    }
+  }
+
+  return changes
+}
+
+function diffExamples(component: string, before: CodeExample[], after: CodeExample[]) {
+  const changes: ComponentChange[] = []
+  const beforeCounts = new Map<string, number>()
+  const afterCounts = new Map<string, number>()
+  const old = new Map(before.map((e) => [exampleKey(e, beforeCounts), e]))
+  const next = new Map(after.map((e) => [exampleKey(e, afterCounts), e]))
+
+  for (const key of old.keys()) {
+    if (next.has(key)) continue
+    changes.push({
+      kind: 'example-removed',
+      component,
+      example: key,
+      breaking: false,
+      message: `Example "${key}" was removed from ${component}`,
+    })
+  }
+  for (const [key, example] of next) {
+    const previous = old.get(key)
+    if (!previous) {
+      changes.push({
+        kind: 'example-added',
+        component,
+        example: key,
+        breaking: false,
+        message: `Example "${key}" was added to ${component}`,
+      })
+    } else if (previous.code.trim() !== example.code.trim()) {
+      changes.push({
+        kind: 'example-changed',
+        component,
+        example: key,
+        before: previous.code,
+        after: example.code,
+        breaking: false,
+        message: `Example "${key}" of ${component} changed`,
+      })
+    }
+  }
+
+  return changes
+}
+
+/**
+ * Compara componentes extraídos de duas versões (pareados pelo nome) e classifica
+ * cada mudança como breaking ou não.
+ *
+ * ```ts
+ * const changes = diffComponents(extractComponents(vendored), extractComponents(upstream))
+ * const breaking = changes.filter((c) => c.breaking)
+ * ```
+ */
+export function diffComponents(
+  before: ExtractedComponent[],
+  after: ExtractedComponent[],
+): ComponentChange[] {
+  const changes: ComponentChange[] = []
+  const afterByName = new Map(after.map((c) => [c.name, c]))
+  const beforeByName = new Map(before.map((c) => [c.name, c]))
+
+  for (const component of before) {
+    if (afterByName.has(component.name)) continue
+    changes.push({
+      kind: 'component-removed',
+      component: component.name,
+      breaking: true,
+      message: `Component ${component.name} was removed`,
+    })
+  }
+  for (const component of after) {
+    const old = beforeByName.get(component.name)
+    if (!old) {
+      changes.push({
+        kind: 'component-added',
+        component: component.name,
+        breaking: false,
+        message: `Component ${component.name} was added`,
+      })
+      continue
+    }
+    changes.push(
+      ...diffProps(component.name, old.props, component.props),
+      ...diffExamples(component.name, old.examples, component.examples),
+    )
+  }
+
+  return changes
+}
@@ -0,0 +1,161 @@
+import { test, expect, describe } from 'bun:test'
+import { applyEdits, editDoc, stringifyDoc } from './edit'
+import { parseMarkdown } from './parser'
+
+const md = [
+  '---',
+  'title: Button',
+  '---',
+  '',
+  '# Button',
+  '',
+  'Intro  with   odd spacing.',
+  '',
+  '```tsx title="demo.tsx" {2}',
+  'import { Button } from "@ui/button"',
+  '',
+  'export default () => <Button />',
+  '```',
+  '',
+  '## Props',
+  '',
+  '| Prop    | Type     | Default   |',
+  '| :------ | :------: | --------: |',
+  '| variant | `string` | `primary` |',
+  '',
+  '* item',
+  '',
+].join('\n')
+
+// ── stringifyDoc ───────────────────────────────────────────────
+
+describe('stringifyDoc', () => {
+  test('documento sem edições sai byte a byte igual', async () => {
+    for (const source of [md, md.replaceAll('\n', '\r\n'), '\uFEFF# A\n\n\n\n  text  ']) {
+      expect(stringifyDoc(await parseMarkdown(source))).toBe(source)
+    }
+  })
+})
+
+// ── applyEdits ─────────────────────────────────────────────────
+
+describe('applyEdits', () => {
+  test('aplica em ordem de offset e mantém a ordem das inserções', () => {
+    const edits = [
+      { start: 5, end: 5, text: '!' },
+      { start: 0, end: 1, text: 'H' },
+      { start: 5, end: 5, text: '?' },
+    ]
+    expect(applyEdits('hello world', edits)).toBe('Hello!? world')
+  })
+
+  test('trechos sobrepostos lançam erro', () => {
+    const edits = [
+      { start: 0, end: 4, text: '' },
+      { start: 2, end: 6, text: '' },
+    ]
+    expect(() => applyEdits('hello world', edits)).toThrow('Overlapping edits at offset 2')
+  })
+})
+
+// ── editDoc ────────────────────────────────────────────────────
+
+describe('editDoc', () => {
+  test('replaceCode troca só o corpo do fence', async () => {
+    const doc = await parseMarkdown(md)
+    const editor = editDoc(doc).replaceCode(doc.codeBlocks[0]!, 'export default Button')
+    expect(editor.edits).toHaveLength(1)
+    const out = editor.toString()
+    expect(out).toContain('```tsx title="demo.tsx" {2}\nexport default Button\n```\n')
+    expect(out.replace('export default Button\n', '')).toBe(
+      md.replace(/import[^`]+<Button \/>\n/, ''),
+    )
+  })
+
+  test('replaceCode preserva a indentação do fence', async () => {
+    const source = '<Tabs>\n  ```sh\n  npm i\n  ```\n</Tabs>'
+    const doc = await parseMarkdown(source, 'a.mdx')
+    const out = editDoc(doc).replaceCode(doc.codeBlocks[0]!, 'bun add x\nbun test').toString()
+    expect(out).toBe('<Tabs>\n  ```sh\n  bun add x\n  bun test\n  ```\n</Tabs>')
+  })
+
+  test('replaceCode alonga o fence quando o código contém ```', async () => {
+    const doc = await parseMarkdown('```md\nold\n```')
+    const out = editDoc(doc).replaceCode(doc.codeBlocks[0]!, '```ts\nx\n```').toString()
+    expect(out).toBe('````md\n```ts\nx\n```\n````')
+  })
+
+  test('replaceCode de novo no mesmo bloco substitui a edição', async () => {
+    const doc = await parseMarkdown('```\na\n```')
+    const editor = editDoc(doc)
+    editor.replaceCode(doc.codeBlocks[0]!, 'b').replaceCode(doc.codeBlocks[0]!, 'c')
+    expect(editor.toString()).toBe('```\nc\n```')
+  })
+
+  test('replaceCode em código indentado', async () => {
+    const doc = await parseMarkdown('text\n\n    old()\n\nafter')
+    expect(editDoc(doc).replaceCode(doc.codeBlocks[0]!, 'a()\n\nb()').toString()).toBe(
+      'text\n\n    a()\n\n    b()\n\nafter',
+    )
+  })
+
+  test('código dentro de lista não é editável', async () => {
+    const doc = await parseMarkdown('- step\n\n  ```sh\n  run\n  ```\n- other')
+    expect(() => editDoc(doc).replaceCode(doc.codeBlocks[0]!, 'x')).toThrow(
+      'Cannot edit code section at line 1',
+    )
+  })
+
+  test('appendRow segue alinhamento e estilo da tabela', async () => {
+    const doc = await parseMarkdown(md)
+    const out = editDoc(doc)
+      .appendRow(doc.tables[0]!, { Prop: 'size', Type: '`sm | lg`', Default: '`md`' })
+      .appendRow(doc.tables[0]!, { Prop: 'asChild' })
+      .toString()
+    expect(out).toContain(
+      [
+        '| variant | `string` | `primary` |',
+        '| size    | `sm \\| lg` | `md`      |',
+        '| asChild |          |           |',
+        '',
+      ].join('\n'),
+    )
+    const reparsed = await parseMarkdown(out)
+    expect(reparsed.tables[0]!.rows.map((r) => r['Prop'])).toEqual(['variant', 'size', 'asChild'])
+    expect(reparsed.tables[0]!.rows[1]!['Type']).toBe('sm | lg')
+  })
+
+  test('appendRow em tabela sem pipes nas pontas', async () => {
+    const doc = await parseMarkdown('a | b\n--|--\n1 | 2')
+    expect(editDoc(doc).appendRow(doc.tables[0]!, { a: '3', b: '4' }).toString()).toBe(
+      'a | b\n--|--\n1 | 2\n3 | 4',
+    )
+  })
+
+  test('appendRow rejeita colunas desconhecidas', async () => {
+    const doc = await parseMarkdown(md)
+    expect(() => editDoc(doc).appendRow(doc.tables[0]!, { Nope: 'x' })).toThrow(
+      'Unknown table column: "Nope"',
+    )
+  })
+
+  test('insertAfter insere depois do heading com linhas em branco', async () => {
+    const doc = await parseMarkdown(md)
+    const props = doc.resolveAnchor('#props')!
+    const out = editDoc(doc).insertAfter(props, '> [!NOTE]\n> Generated.').toString()
+    expect(out).toContain('## Props\n\n> [!NOTE]\n> Generated.\n\n| Prop')
+    const colado = await parseMarkdown('# A\ntext')
+    expect(editDoc(colado).insertAfter(colado.headings[0]!, 'new').toString()).toBe(
+      '# A\n\nnew\n\ntext',
+    )
+  })
+
+  test('edições mantêm CRLF', async () => {
+    const doc = await parseMarkdown(md.replaceAll('\n', '\r\n'))
+    const out = editDoc(doc)
+      .replaceCode(doc.codeBlocks[0]!, 'a\nb')
+      .insertAfter(doc.headings[0]!, 'x')
+      .toString()
+    expect(out.replace(/\r\n/g, '')).not.toContain('\n')
+  })
+})
@@ -0,0 +1,208 @@
+/**
+ * Edit - Serializa o documento de volta e aplica edições pontuais no texto original
+ * Cada operação vira um TextEdit (trecho do original + texto novo), então o resto
+ * do arquivo — espaçamento, alinhamento de tabelas, meta dos fences — fica intacto
+ */
+
+import type { CodeSection, ParsedDoc, Section, TableSection } from './parser'
+import { isTableDelimiter, splitCells } from './scanner'
+
+export interface TextEdit {
+  /** Offset inicial no texto original (inclusivo) */
+  start: number
+  /** Offset final no texto original (exclusivo); igual a `start` numa inserção */
+  end: number
+  text: string
+}
+
+export interface DocEditor {
+  /** Edições acumuladas, na ordem em que foram feitas */
+  readonly edits: TextEdit[]
+  /** Troca o código de um code block, mantendo fence, linguagem, meta e indentação */
+  replaceCode(section: CodeSection, code: string): DocEditor
+  /** Adiciona uma linha no fim da tabela, no mesmo estilo das linhas existentes */
+  appendRow(table: TableSection, row: Record<string, string>): DocEditor
+  /**
+   * Insere markdown depois da seção (ex: um heading), separado por linha em branco.
+   * Seções aninhadas (ex: parágrafo dentro de lista) inserem depois do bloco todo.
+   */
+  insertAfter(section: Section, markdown: string): DocEditor
+  /** Documento com as edições aplicadas */
+  toString(): string
+}
+
+const FENCE = /^( *)(`{3,}|~{3,})/
+
+/**
+ * Aplica as edições ao texto. Inserções no mesmo offset mantêm a ordem;
+ * trechos sobrepostos lançam erro.
+ */
+export function applyEdits(content: string, edits: TextEdit[]): string {
+  const sorted = edits.toSorted((a, b) => a.start - b.start || a.end - b.end)
+  let result = ''
+  let cursor = 0
+  for (const edit of sorted) {
+    if (edit.start < cursor) throw new Error(`Overlapping edits at offset ${edit.start}`)
+    result += content.slice(cursor, edit.start) + edit.text
+    cursor = edit.end
+  }
+  return result + content.slice(cursor)
+}
+
+/**
+ * Markdown do documento. Sem edições, devolve o original byte a byte.
+ */
+export function stringifyDoc(doc: ParsedDoc, edits: TextEdit[] = []): string {
+  return applyEdits(doc.content, edits)
+}
+
+function lineEnding(content: string): string {
+  return content.includes('\r\n') ? '\r\n' : '\n'
+}
+
+function sourceOf(doc: ParsedDoc, section: Section): string {
+  return doc.content.slice(section.position.start.offset, section.position.end.offset)
+}
+
+function notEditable(section: Section): Error {
+  return new Error(
+    `Cannot edit ${section.type} section at line ${section.position.start.line}: ` +
+      'it is part of a larger block (list, blockquote...)',
+  )
+}
+
+function codeEdit(doc: ParsedDoc, section: CodeSection, code: string): TextEdit {
+  const raw = sourceOf(doc, section)
+  const eol = lineEnding(raw)
+  const lines = raw.split(/\r?\n/)
+  const { start, end } = section.position
+  const open = lines[0]!.match(FENCE)
+
+  if (!open) {
+    // Código indentado: só é o bloco da seção se o conteúdo bater
+    const body = lines.map((l) => l.replace(/^(?: {4}|\t)/, '')).join('\n')
+    if (lines.some((l) => l.trim() && !/^(?: {4}|\t)/.test(l)) || body.trim() !== section.code) {
+      throw notEditable(section)
+    }
+    const text = code
+      .split('\n')
+      .map((l) => (l ? `    ${l}` : l))
+      .join(eol)
+    return { start: start.offset, end: end.offset, text }
+  }
+
+  const [, indent, fence] = open
+  const closing = new RegExp(`^ {0,3}${fence![0]}{${fence!.length},}[ \\t]*$`)
+  const closed = lines.length > 1 && closing.test(lines.at(-1)!)
+  const body = lines.slice(1, closed ? -1 : undefined)
+  const dedented = body.map((l) =>
+    l.slice(Math.min(indent!.length, l.length - l.trimStart().length)),
+  )
+  if (dedented.join('\n').trim() !== section.code) throw notEditable(section)
+
+  const indented = code.split('\n').map((l) => (l ? indent + l : l))
+  if (indented.some((l) => closing.test(l))) {
+    // O código contém o fence de fechamento: reescreve o bloco com um fence mais longo
+    const longest = Math.max(...code.match(new RegExp(`${fence![0]}+`, 'g'))!.map((r) => r.length))
+    const longer = fence![0]!.repeat(longest + 1)
+    const info = lines[0]!.slice(open[0].length)
+    const text = [indent + longer + info, ...indented, indent + longer].join(eol)
+    return { start: start.offset, end: end.offset, text }
+  }
+
+  const bodyStart = start.offset + raw.indexOf('\n') + 1
+  const bodyEnd = closed ? start.offset + raw.lastIndexOf('\n') + 1 : end.offset
+  if (lines.length === 1) {
+    return { start: end.offset, end: end.offset, text: eol + indented.join(eol) }
+  }
+  return { start: bodyStart, end: bodyEnd, text: indented.join(eol) + (closed ? eol : '') }
+}
+
+function rowEdit(doc: ParsedDoc, table: TableSection, row: Record<string, string>): TextEdit {
+  const unknown = Object.keys(row).filter((key) => !table.headers.includes(key))
+  if (unknown.length > 0) {
+    throw new Error(`Unknown table column: ${unknown.map((k) => `"${k}"`).join(', ')}`)
+  }
+
+  const raw = sourceOf(doc, table)
+  const lines = raw.split(/\r?\n/)
+  const header = lines[0]!
+  const delimiter = lines[1]
+  if (
+    delimiter === undefined ||
+    !isTableDelimiter(delimiter) ||
+    splitCells(header).length !== table.headers.length
+  ) {
+    throw notEditable(table)
+  }
+
+  // Estilo das linhas existentes: indentação, pipes nas pontas e colunas alinhadas
+  const indent = header.match(/^ */)![0]
+  const leading = header.trimStart().startsWith('|')
+  const trailing = header.trimEnd().endsWith('|')
+  const widths = splitCells(delimiter).map((cell) => cell.length)
+  const aligned = lines.every((l) => l.trimEnd().length === header.trimEnd().length)
+
+  const cells = table.headers.map((column, i) => {
+    const value = (row[column] ?? '').replace(/\r?\n/g, ' ').replace(/\|/g, '\\|')
+    return aligned ? ` ${value.padEnd(widths[i]! - 2)} ` : ` ${value} `
+  })
+  let line = cells.join('|')
+  if (leading) line = `|${line}`
+  else line = line.replace(/^ /, '')
+  if (trailing) line = `${line}|`
+  else line = line.trimEnd()
+
+  const { end } = table.position
+  return { start: end.offset, end: end.offset, text: lineEnding(doc.content) + indent + line }
+}
+
+function insertEdit(doc: ParsedDoc, section: Section, markdown: string): TextEdit {
+  const eol = lineEnding(doc.content)
+  const { end } = section.position
+  const rest = doc.content.slice(end.offset)
+  const after = rest.startsWith(eol) ? rest.slice(eol.length) : rest
+  // Linha em branco depois também, se o bloco seguinte vier colado
+  const spacing = after && !after.startsWith(eol) && after.trim() ? eol : ''
+  const text = eol + eol + markdown.trim().split(/\r?\n/).join(eol) + spacing
+  return { start: end.offset, end: end.offset, text }
+}
+
+/**
+ * Editor de um documento parseado. As operações acumulam edições sobre o
+ * `doc.content` original; `toString()` (ou `stringifyDoc(doc, editor.edits)`) aplica.
+ *
+ * ```ts
+ * const editor = editDoc(doc)
+ * editor.appendRow(doc.tables[0]!, { Prop: 'size', Type: 'string' })
+ * await Bun.write(path, editor.toString())
+ * ```
+ */
+export function editDoc(doc: ParsedDoc): DocEditor {
+  const edits: TextEdit[] = []
+
+  const editor: DocEditor = {
+    edits,
+    replaceCode(section, code) {
+      const edit = codeEdit(doc, section, code)
+      // Trocar o mesmo code block de novo substitui a edição anterior
+      const previous = edits.findIndex((e) => e.start === edit.start && e.end === edit.end)
+      if (previous === -1) edits.push(edit)
+      else edits[previous] = edit
+      return editor
+    },
+    appendRow(table, row) {
+      edits.push(rowEdit(doc, table, row))
+      return editor
+    },
+    insertAfter(section, markdown) {
+      edits.push(insertEdit(doc, section, markdown))
+      return editor
+    },
+    toString() {
+      return stringifyDoc(doc, edits)
+    },
+  }
+
+  return editor
+}
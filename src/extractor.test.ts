@@ -84,6 +84,19 @@ describe('extractor', () => {
       expect(extractComponents(noH1)).toHaveLength(0)
     })
 
+    test('usa title do frontmatter quando não há H1', async () => {
+      const d = await parseMarkdown('---\ntitle: Date Picker\n---\n\n## Usage')
+      const comps = extractComponents(d)
+      expect(comps[0]!.name).toBe('DatePicker')
+      expect(comps[0]!.slug).toBe('date-picker')
+    })
+
+    test('expõe metadados do frontmatter', async () => {
+      const d = await parseMarkdown('---\nstatus: deprecated\nsince: 2.1\n---\n\n# Comp')
+      const comps = extractComponents(d)
+      expect(comps[0]!.frontmatter).toEqual({ status: 'deprecated', since: '2.1' })
+    })
+
     test('nome do componente remove espaços', async () => {
       const d = await parseMarkdown('# Date Picker\n\nA date picker.')
       const comps = extractComponents(d)
@@ -92,9 +105,6 @@ describe('extractor', () => {
   })
 
   describe('imports', () => {
-    // NOTA: Bun.markdown HTML-encodes " como &quot; dentro de code blocks,
-    // então o regex de import não casa com imports que usam aspas duplas.
-    // Imports com aspas simples funcionam corretamente.
     test('extrai imports com aspas simples', async () => {
       const md = '# Comp\n\n```tsx\n' + "import { Foo } from '@lib/foo';\n" + '```'
       const d = await parseMarkdown(md)
@@ -103,6 +113,12 @@ describe('extractor', () => {
       expect(comps[0]!.imports[0]).toContain('Foo')
     })
 
+    test('extrai imports com aspas duplas', async () => {
+      const comp = components[0]!
+      expect(comp.imports).toContain('import { Button } from "@ui/button";')
+      expect(comp.imports).toContain('import { Icon } from "@ui/icon";')
+    })
+
     test('imports são deduplicados', async () => {
       const md =
         '# Comp\n\n```tsx\n' +
@@ -116,6 +132,30 @@ describe('extractor', () => {
       expect(unique.size).toBe(comps[0]!.imports.length)
     })
 
+    test('default, namespace, type, várias linhas e reexportações viram declarações', async () => {
+      const md =
+        '# Dialog\n\n```tsx\n' +
+        'import * as React from "react"\n' +
+        'import Dialog, {\n  DialogTrigger as Trigger,\n  type DialogProps,\n} from "@ui/dialog"\n' +
+        "import '@ui/dialog/styles.css'\n" +
+        'export { Dialog } from "@ui/dialog"\n' +
+        '```'
+      const [comp] = extractComponents(await parseMarkdown(md))
+      expect(comp!.imports).toEqual([
+        'import * as React from "react";',
+        'import Dialog, { DialogTrigger as Trigger, type DialogProps } from "@ui/dialog";',
+        'import "@ui/dialog/styles.css";',
+        'export { Dialog } from "@ui/dialog";',
+      ])
+      const dialog = comp!.importDeclarations[1]!
+      expect(dialog.default).toBe('Dialog')
+      expect(dialog.named).toEqual([
+        { imported: 'DialogTrigger', local: 'Trigger', typeOnly: false },
+        { imported: 'DialogProps', local: 'DialogProps', typeOnly: true },
+      ])
+      expect(comp!.importDeclarations[2]!.sideEffect).toBe(true)
+    })
+
     test('ignora imports de blocos não-ts/tsx/jsx', async () => {
       const md = "# Comp\n\n```css\n@import 'styles.css';\n```"
       const d = await parseMarkdown(md)
@@ -179,6 +219,12 @@ describe('extractor', () => {
       expect(variant!.default).toBeDefined()
     })
 
+    test('célula vazia não desloca as colunas seguintes', () => {
+      const disabled = components[0]!.props.find((p) => p.name === 'disabled')!
+      expect(disabled.default).toBeUndefined()
+      expect(disabled.description).toBe('Whether the button is disabled')
+    })
+
     test('tabela sem colunas Prop/Type não gera props', async () => {
       const md = '# Comp\n\n| Feature | Status |\n| --- | --- |\n| A | Done |'
       const d = await parseMarkdown(md)
@@ -186,6 +232,48 @@ describe('extractor', () => {
       expect(comps[0]!.props).toHaveLength(0)
     })
 
+    test('tipo interpretado, obrigatoriedade e depreciação', async () => {
+      const md =
+        '# Comp\n\n| Prop | Type | Required | Description |\n| --- | --- | --- | --- |\n' +
+        '| `size*` | `"sm" \\| "md"` | | Tamanho |\n' +
+        '| `label` | `string` | Yes | Texto |\n' +
+        '| `icon?` | `ReactNode` | | Ícone |\n' +
+        '| `color` | `string` | No | Deprecated: use `variant` |\n' +
+        '| `onChange` | `(value: string) => void` | | Chamado ao mudar |\n'
+      const [comp] = extractComponents(await parseMarkdown(md))
+      expect(comp!.props.map((p) => [p.name, p.required, p.deprecated])).toEqual([
+        ['size', true, false],
+        ['label', true, false],
+        ['icon', false, false],
+        ['color', false, true],
+        ['onChange', undefined, false],
+      ])
+      expect(comp!.props[0]!.type).toBe('"sm" | "md"')
+      expect(comp!.props[0]!.typeModel).toEqual({
+        kind: 'union',
+        types: [
+          { kind: 'literal', value: 'sm' },
+          { kind: 'literal', value: 'md' },
+        ],
+      })
+      expect(comp!.props[4]!.typeModel?.kind).toBe('function')
+    })
+
+    test('"required" no meio da descrição não torna a prop obrigatória', async () => {
+      const md =
+        '# Input\n\n| Prop | Type | Default | Description |\n| --- | --- | --- | --- |\n' +
+        '| required | `boolean` | `false` | Whether the input is required |\n' +
+        '| name | `string` | | **Required** Nome do campo |\n' +
+        '| id | `string` | `"x"` | Required when labelled |\n'
+      const [comp] = extractComponents(await parseMarkdown(md))
+      expect(comp!.props.map((p) => [p.name, p.required])).toEqual([
+        ['required', undefined],
+        ['name', true],
+        ['id', undefined],
+      ])
+      expect(generateTypes(comp!)).toContain('  required?: boolean;')
+    })
+
     test('reconhece variantes de nome de coluna: Name, Property', async () => {
       const md = '# Comp\n\n| Name | Type |\n| --- | --- |\n| foo | string |'
       const d = await parseMarkdown(md)
@@ -196,8 +284,7 @@ describe('extractor', () => {
   })
 
   describe('subComponents', () => {
-    test('detectSubComponents busca padrão apenas nos imports extraídos', async () => {
-      // detectSubComponents só busca nos imports extraídos, não no corpo dos exemplos
+    test('acesso a membro fora de JSX não é sub-componente', async () => {
       const md =
         '# Widget\n\n```tsx\n' + 'import { Widget } from "lib";\n' + 'const x = Widget.Header;\n```'
       const d = await parseMarkdown(md)
@@ -205,6 +292,53 @@ describe('extractor', () => {
       expect(comps[0]!.subComponents).toHaveLength(0)
     })
 
+    test('uso em JSX: Component.Sub e ComponentSub', async () => {
+      const md =
+        '# Tabs\n\n```tsx\n' +
+        '<Tabs.Root>\n  <Tabs.List>\n    <Tabs.Trigger value="a" />\n  </Tabs.List>\n</Tabs.Root>\n' +
+        '<TabsContent value="a" />\n```'
+      const [comp] = extractComponents(await parseMarkdown(md))
+      expect(comp!.subComponents.map((s) => [s.name, s.part, s.sources])).toEqual([
+        ['Tabs.Root', 'Root', ['jsx']],
+        ['Tabs.List', 'List', ['jsx']],
+        ['Tabs.Trigger', 'Trigger', ['jsx']],
+        ['TabsContent', 'Content', ['jsx']],
+      ])
+    })
+
+    test('imports nomeados com o prefixo, sem tipos e *Props', async () => {
+      const md =
+        '# Tabs\n\n```tsx\n' +
+        'import { Tabs, TabsList, TabsTrigger as Trigger, type TabsValue, TabsProps } from "@/ui/tabs"\n' +
+        'import { Tabsy } from "tabsy"\n```'
+      const [comp] = extractComponents(await parseMarkdown(md))
+      expect(comp!.subComponents).toEqual([
+        { name: 'TabsList', part: 'List', sources: ['import'], props: [] },
+        { name: 'TabsTrigger', part: 'Trigger', sources: ['import'], props: [] },
+      ])
+    })
+
+    test('heading do próprio componente sob a referência da API não é sub-componente', async () => {
+      const table = '| Prop | Type |\n| --- | --- |\n'
+      const md =
+        '# Tabs\n\n```tsx\n<Tabs>\n  <TabsList />\n</Tabs>\n```\n\n## API Reference\n\n' +
+        `### Tabs\n\n${table}| defaultValue | \`string\` |\n\n` +
+        `### TabsList\n\n${table}| loop | \`boolean\` |\n`
+      const [comp] = extractComponents(await parseMarkdown(md))
+      expect(comp!.props.map((p) => p.name)).toEqual(['defaultValue'])
+      expect(comp!.subComponents.map((s) => [s.name, s.part, s.props.map((p) => p.name)])).toEqual([
+        ['TabsList', 'List', ['loop']],
+      ])
+    })
+
+    test('títulos que não são identificadores não quebram a extração', async () => {
+      for (const title of ['C++ Guide', 'Button (beta', 'A*B [x]']) {
+        const md = `# ${title}\n\n\`\`\`tsx\nimport { Button } from "lib"\n<Button />\n\`\`\``
+        const [comp] = extractComponents(await parseMarkdown(md))
+        expect(comp!.subComponents).toEqual([])
+      }
+    })
+
     test('sem sub-componentes quando não há padrão', async () => {
       const md = '# Simple\n\n```tsx\nimport { Simple } from "lib";\n```'
       const d = await parseMarkdown(md)
@@ -214,6 +348,80 @@ describe('extractor', () => {
   })
 })
 
+// ── MDX ──────────────────────────────────────────────────────
+
+describe('extractComponents (mdx)', () => {
+  const mdx =
+    '---\ntitle: Button\n---\n\n' +
+    'import { Button } from "@/components/ui/button"\n\n' +
+    '<ComponentPreview name="button-demo" />\n\n' +
+    '## Outline\n\n' +
+    '<ComponentPreview name="button-outline" />\n\n' +
+    '<ComponentSource name="button" />\n'
+
+  test('imports do ESM entram em imports', async () => {
+    const d = await parseMarkdown(mdx, 'button.mdx')
+    const comps = extractComponents(d)
+    expect(comps[0]!.imports).toEqual(['import { Button } from "@/components/ui/button";'])
+  })
+
+  test('extrai referências de demo com heading mais próximo', async () => {
+    const d = await parseMarkdown(mdx, 'button.mdx')
+    const comps = extractComponents(d)
+    expect(comps[0]!.demos).toEqual([
+      { title: 'Example', component: 'ComponentPreview', name: 'button-demo' },
+      { title: 'Outline', component: 'ComponentPreview', name: 'button-outline' },
+    ])
+  })
+})
+
+// ── Warnings ─────────────────────────────────────────────────
+
+describe('extractComponents (warnings)', () => {
+  const md =
+    '# Dialog\n\n' +
+    '> [!WARNING] Deprecated\n> Use `Sheet` instead.\n\n' +
+    '> [!TIP]\n> Not a warning.\n\n' +
+    ':::caution\nCloses on **Escape**.\n:::\n\n' +
+    ':::deprecated\nThe `modal` prop.\n:::\n\n' +
+    '> [!WARNING]\n> Deprecated in v2, use `Sheet`.\n\n' +
+    '> [!NOTE]\n> The `open` prop is deprecated.\n\n' +
+    '> [!NOTE]\n> Opens modally.\n>\n> The old API was deprecated.\n'
+
+  test('expõe callouts de aviso e depreciação', async () => {
+    const comps = extractComponents(await parseMarkdown(md))
+    expect(comps[0]!.warnings).toEqual([
+      { kind: 'warning', title: 'Deprecated', text: 'Use Sheet instead.', deprecated: true },
+      { kind: 'caution', title: 'Caution', text: 'Closes on Escape.', deprecated: false },
+      { kind: 'custom', title: 'Deprecated', text: 'The modal prop.', deprecated: true },
+      { kind: 'warning', title: 'Warning', text: 'Deprecated in v2, use Sheet.', deprecated: true },
+      { kind: 'note', title: 'Note', text: 'The open prop is deprecated.', deprecated: true },
+    ])
+  })
+})
+
+// ── Diagnostics ──────────────────────────────────────────────
+
+describe('extractComponents (diagnostics)', () => {
+  test('tabela de props sem coluna Type vira diagnóstico no doc', async () => {
+    const doc = await parseMarkdown(
+      '# Button\n\n## Props\n\n| Prop | Description |\n| --- | --- |\n| size | Tamanho |\n\n' +
+        '## Keyboard\n\n| Name | Action |\n| --- | --- |\n| Enter | Activates |',
+    )
+    const comps = extractComponents(doc)
+    expect(comps[0]!.props).toEqual([])
+    expect(doc.diagnostics.map((d) => [d.code, d.position.start.line])).toEqual([
+      ['props-table-missing-type', 5],
+    ])
+    expect(doc.diagnostics[0]!.message).toBe(
+      'Props table has no Type column (Prop, Description); its props are not extracted',
+    )
+    // Extrair de novo não repete o diagnóstico
+    extractComponents(doc)
+    expect(doc.diagnostics).toHaveLength(1)
+  })
+})
+
 // ── extractCodeByLang ────────────────────────────────────────
 
 describe('extractCodeByLang', () => {
@@ -249,6 +457,13 @@ describe('extractSnippets', () => {
     expect(snippets.has('utils.ts')).toBe(true)
   })
 
+  test('chave usa filename do meta do fence', async () => {
+    const md = '# Comp\n\n```tsx title="app/page.tsx"\nexport default function Page() {}\n```'
+    const d = await parseMarkdown(md)
+    const snippets = extractSnippets(d)
+    expect([...snippets.keys()]).toEqual(['app/page.tsx'])
+  })
+
   test('chave usa titulo.lang quando sem filename', async () => {
     const md = '# Comp\n\n## Setup\n\n```ts\nconst a = 1;\n```'
     const d = await parseMarkdown(md)
@@ -281,9 +496,13 @@ describe('generateTypes', () => {
       name: 'Empty',
       slug: 'empty',
       imports: [],
+      importDeclarations: [],
       examples: [],
       props: [],
       subComponents: [],
+      demos: [],
+      frontmatter: {},
+      warnings: [],
     }
     const types = generateTypes(comp)
     expect(types).not.toContain('interface')
@@ -301,9 +520,13 @@ describe('generateTypes', () => {
       name: 'Test',
       slug: 'test',
       imports: [],
+      importDeclarations: [],
       examples: [],
       props: [{ name: 'color', type: 'string', description: 'The color' }],
       subComponents: [],
+      demos: [],
+      frontmatter: {},
+      warnings: [],
     }
     const types = generateTypes(comp)
     expect(types).toContain('/** The color */')
@@ -315,24 +538,168 @@ describe('generateTypes', () => {
       name: 'Test',
       slug: 'test',
       imports: [],
+      importDeclarations: [],
       examples: [],
       props: [{ name: 'size', type: 'string', description: '', default: 'md' }],
       subComponents: [],
+      demos: [],
+      frontmatter: {},
+      warnings: [],
     }
     const types = generateTypes(comp)
     expect(types).toContain('size?: string;')
   })
 
+  test('usa a obrigatoriedade marcada, o tipo normalizado e @deprecated', async () => {
+    const md =
+      '# Chip\n\n| Prop | Type | Default | Description |\n| --- | --- | --- | --- |\n' +
+      "| `variant*` | `'solid' \\| 'soft'` | `'solid'` | Estilo |\n" +
+      '| `tone?` | `string` | | Deprecated. Use variant |\n'
+    const types = generateTypes(extractComponents(await parseMarkdown(md))[0]!)
+    expect(types).toContain('  variant: "solid" | "soft";')
+    expect(types).toContain('  /** @deprecated Deprecated. Use variant */\n  tone?: string;')
+  })
+
   test('prop sem default gera campo obrigatório', () => {
     const comp: ExtractedComponent = {
       name: 'Test',
       slug: 'test',
       imports: [],
+      importDeclarations: [],
       examples: [],
       props: [{ name: 'disabled', type: 'boolean', description: '' }],
       subComponents: [],
+      demos: [],
+      frontmatter: {},
+      warnings: [],
     }
     const types = generateTypes(comp)
     expect(types).toMatch(/disabled: boolean;/)
   })
 })
+
+// ── Vários componentes ─────────────────────────────────────────
+
+describe('extractComponents (vários componentes)', () => {
+  const formMd = `# Form
+
+\`\`\`tsx
+import { Form, FormField, FormItem } from "@/ui/form"
+\`\`\`
+
+## Props
+
+| Prop | Type | Description |
+| --- | --- | --- |
+| \`onSubmit\` | \`() => void\` | Envio |
+
+## FormField
+
+Conecta um campo ao form.
+
+| Prop | Type | Description |
+| --- | --- | --- |
+| \`name\` | \`string\` | Nome do campo |
+
+\`\`\`tsx
+// field.tsx
+<FormField name="email" />
+\`\`\`
+
+## \`FormItem\`
+
+| Prop | Type | Description |
+| --- | --- | --- |
+| \`className\` | \`string\` | Classes |
+
+## Installation
+
+\`\`\`bash
+bun add @ui/form
+\`\`\`
+`
+
+  test('cada heading de componente vira um componente com as próprias props', async () => {
+    const comps = extractComponents(await parseMarkdown(formMd, 'form.md'))
+    expect(comps.map((c) => [c.name, c.slug, c.props.map((p) => p.name)])).toEqual([
+      ['Form', 'form', ['onSubmit']],
+      ['FormField', 'formfield', ['name']],
+      ['FormItem', 'formitem', ['className']],
+    ])
+  })
+
+  test('exemplos e imports ficam com o componente da seção', async () => {
+    const [form, field, item] = extractComponents(await parseMarkdown(formMd, 'form.md'))
+    expect(form!.examples).toHaveLength(1)
+    expect(field!.examples.map((e) => e.filename)).toEqual(['field.tsx'])
+    expect(item!.examples).toEqual([])
+    // Import geral do topo também vale para os componentes que ele traz
+    expect(field!.imports).toEqual(['import { Form, FormField, FormItem } from "@/ui/form";'])
+    expect(form!.subComponents.map((s) => [s.name, s.sources, s.props.map((p) => p.name)])).toEqual(
+      [
+        ['FormField', ['jsx', 'import', 'heading'], ['name']],
+        ['FormItem', ['import', 'heading'], ['className']],
+      ],
+    )
+  })
+
+  test('Component.Sub e subseções de API Reference', async () => {
+    const md = `# Tabs
+
+\`\`\`tsx
+<Tabs.Root><Tabs.Trigger value="a" /></Tabs.Root>
+\`\`\`
+
+## API Reference
+
+### Root
+
+| Prop | Type |
+| --- | --- |
+| \`value\` | \`string\` |
+
+### Tabs.Trigger
+
+| Prop | Type |
+| --- | --- |
+| \`disabled\` | \`boolean\` |
+
+### Props
+
+| Prop | Type |
+| --- | --- |
+| \`orientation\` | \`string\` |
+`
+    const comps = extractComponents(await parseMarkdown(md))
+    expect(comps.map((c) => [c.name, c.props.map((p) => p.name)])).toEqual([
+      ['Tabs', ['orientation']],
+      ['Root', ['value']],
+      ['Tabs.Trigger', ['disabled']],
+    ])
+    // Headings da API mesclados com o uso em JSX, com as props de cada seção
+    expect(comps[0]!.subComponents).toEqual([
+      { name: 'Tabs.Root', part: 'Root', sources: ['jsx', 'heading'], props: comps[1]!.props },
+      {
+        name: 'Tabs.Trigger',
+        part: 'Trigger',
+        sources: ['jsx', 'heading'],
+        props: comps[2]!.props,
+      },
+    ])
+    expect(comps[1]!.subComponents).toEqual([])
+  })
+
+  test('headings em PascalCase sem uso no código nem props não viram componentes', async () => {
+    const md = '# Button\n\n## TypeScript\n\nTipos inclusos.\n\n## Usage\n\n```tsx\n<Button />\n```'
+    const comps = extractComponents(await parseMarkdown(md))
+    expect(comps.map((c) => c.name)).toEqual(['Button'])
+    expect(comps[0]!.examples).toHaveLength(1)
+  })
+
+  test('heading com o nome do componente principal continua nele', async () => {
+    const md =
+      '# Form\n\n## API Reference\n\n### Form\n\n| Prop | Type |\n| - | - |\n| `a` | `string` |'
+    const comps = extractComponents(await parseMarkdown(md))
+    expect(comps.map((c) => [c.name, c.props.length])).toEqual([['Form', 1]])
+  })
+})
@@ -2,15 +2,62 @@
  * Code Extractor - Extrai e organiza código de documentação
  */
 
-import { type ParsedDoc, type CodeSection, type HeadingSection } from './parser'
+import { formatImport, parseImports, type ImportDeclaration } from './imports'
+import { formatPropType, parsePropType, type PropType } from './proptype'
+import {
+  slugify,
+  type CalloutKind,
+  type CalloutSection,
+  type CodeSection,
+  type Frontmatter,
+  type HeadingSection,
+  type ParsedDoc,
+  type Section,
+  type TableSection,
+} from './parser'
 
 export interface ExtractedComponent {
   name: string
   slug: string
+  /** `importDeclarations` formatadas: `import { Button } from "@ui/button";` */
   imports: string[]
+  /** Imports e reexportações dos blocos TS/JSX e do ESM, como dados */
+  importDeclarations: ImportDeclaration[]
   examples: CodeExample[]
   props: PropDefinition[]
-  subComponents: string[]
+  /** Partes de um componente composto (`Tabs.Trigger`, `TabsList`), com as próprias props */
+  subComponents: SubComponent[]
+  /** Demos referenciadas por JSX no MDX (`<ComponentPreview name="button-demo" />`) */
+  demos: DemoReference[]
+  /** Metadados do frontmatter da doc (title, description, status, since, tags...) */
+  frontmatter: Frontmatter
+  /** Callouts de aviso e depreciação (`> [!WARNING]`, `:::deprecated`) */
+  warnings: ComponentWarning[]
+}
+
+export type SubComponentSource = 'jsx' | 'import' | 'heading'
+
+export interface SubComponent {
+  /** Nome usado no código (`Tabs.Trigger`, `TabsTrigger`), senão o do heading */
+  name: string
+  /** Nome sem o prefixo do componente: `Trigger` */
+  part: string
+  /** Onde aparece: JSX dos exemplos, imports nomeados, headings de componente */
+  sources: SubComponentSource[]
+  /** Props da seção do sub-componente, quando ele tem heading próprio */
+  props: PropDefinition[]
+}
+
+export interface ComponentWarning {
+  kind: CalloutKind
+  title: string
+  /** Texto do conteúdo do callout */
+  text: string
+  /**
+   * Rótulo, título ou primeiro parágrafo indica depreciação (`[!DEPRECATED]`,
+   * `> [!WARNING] Deprecated`, `> [!NOTE]\n> Deprecated in v2`)
+   */
+  deprecated: boolean
 }
 
 export interface CodeExample {
@@ -20,88 +67,239 @@ export interface CodeExample {
   filename?: string
 }
 
+export interface DemoReference {
+  /** Heading mais próximo */
+  title: string
+  /** Componente JSX que referencia a demo */
+  component: string
+  /** Valor do atributo `name` (ou `src`) */
+  name: string
+}
+
 export interface PropDefinition {
+  /** Sem os marcadores `*` (obrigatória) e `?` (opcional) */
   name: string
+  /** Tipo como escrito na doc, sem crases */
   type: string
+  /** `type` interpretado (literais, uniões, funções, referências...) */
+  typeModel?: PropType
   description: string
   default?: string
+  /**
+   * Marcada na doc: `name*`, coluna Required, descrição que começa com "Required" (sem
+   * default) ou Default "required" (`true`); `name?` ou Required "No" (`false`).
+   * `undefined` quando a doc não diz.
+   */
+  required?: boolean
+  /** "Deprecated" na descrição ou numa coluna Deprecated/Status */
+  deprecated?: boolean
 }
 
 /**
- * Extrai componentes de uma doc parseada
+ * Acrescenta campos ao componente extraído. Declare os campos em `ExtractedComponent`
+ * por declaration merging para que fiquem tipados:
+ *
+ * ```ts
+ * declare module 'mdxtractor' {
+ *   interface ExtractedComponent {
+ *     tokens?: string[]
+ *   }
+ * }
+ * ```
  */
-export function extractComponents(doc: ParsedDoc): ExtractedComponent[] {
-  const components: ExtractedComponent[] = []
-  const { headings, codeBlocks, tables } = doc
+export interface ExtractorPlugin {
+  name: string
+  /** Campos devolvidos são mesclados no componente (também pode alterá-lo diretamente) */
+  extend: (component: ExtractedComponent, doc: ParsedDoc) => Partial<ExtractedComponent> | void
+}
 
-  // Encontra o componente principal (primeiro H1)
-  const mainHeading = headings.find((h) => h.level === 1)
-  if (!mainHeading) return components
+export interface ExtractOptions {
+  plugins?: ExtractorPlugin[]
+}
 
-  const componentName = mainHeading.text.replace(/\s+/g, '')
+// Colunas que identificam uma tabela de props
+const NAME_COLUMNS = ['prop', 'name', 'property']
+const YES = /^(?:yes|true|required|x|✓|✔️?|✅)$/i
+const NO = /^(?:no|false|optional|-|—|–)$/i
+// `Required.`, `**Required**` no início da descrição
+const REQUIRED_MARKER = /^\s*(?:\*\*)?required\b/i
+
+// Títulos de seção que não são nomes de componente, mesmo sob "API Reference"
+const SECTION_WORDS = new Set([
+  'accessibility',
+  'anatomy',
+  'api',
+  'events',
+  'examples',
+  'features',
+  'installation',
+  'methods',
+  'notes',
+  'properties',
+  'props',
+  'slots',
+  'styling',
+  'types',
+  'usage',
+])
+// `Tabs.Trigger`, `Form.Item`
+const COMPOUND_NAME = /^[A-Z][A-Za-z\d]*(?:\.[A-Z][A-Za-z\d]*)+$/
+// `FormField`: duas ou mais partes em PascalCase
+const PASCAL_NAME = /^[A-Z][a-z\d]+(?:[A-Z][a-z\d]*)+$/
+const IDENTIFIER = /^[A-Z][A-Za-z\d]*$/
+// Nome que pode prefixar sub-componentes no código (`Tabs`, `Form.Field`)
+const COMPONENT_PATH = /^[A-Za-z_]\w*(?:\.[A-Za-z_]\w*)*$/
+const REFERENCE_HEADING = /^(?:api(?: reference)?|reference|components)$/i
+
+/** Texto do heading sem a forma JSX (`<FormField />` → `FormField`) */
+function headingName(heading: HeadingSection): string {
+  return heading.text
+    .replace(/^<\s*/, '')
+    .replace(/\s*\/?>$/, '')
+    .trim()
+}
 
-  // Extrai imports dos code blocks
-  const imports = extractImports(codeBlocks)
+/**
+ * Headings (H2+) que abrem a seção de um componente: `Component.Sub`, nomes em
+ * PascalCase composto (`FormField`) ou identificadores sob "API Reference". O nome
+ * precisa aparecer no código da doc ou a seção precisa ter uma tabela de props.
+ */
+function componentHeadings(doc: ParsedDoc): Map<number, string> {
+  const code = [...doc.codeBlocks.map((b) => b.code), ...doc.byType('esm').map((s) => s.code)]
+  const found = new Map<number, string>()
+
+  for (const heading of doc.headings) {
+    if (heading.level === 1) continue
+    const name = headingName(heading)
+    if (!IDENTIFIER.test(name) && !COMPOUND_NAME.test(name)) continue
+    if (SECTION_WORDS.has(name.toLowerCase())) continue
+    const underReference = doc.breadcrumb(heading).some((h) => REFERENCE_HEADING.test(h.text))
+    if (!COMPOUND_NAME.test(name) && !PASCAL_NAME.test(name) && !underReference) continue
+
+    const usage = new RegExp(`\\b${name.replaceAll('.', '\\.')}\\b`)
+    const hasTable = doc.sectionsUnder([heading.slug]).some((s) => s.type === 'table')
+    if (hasTable || code.some((c) => usage.test(c))) found.set(heading.idx, name)
+  }
 
-  // Extrai exemplos agrupados por heading
-  const examples = extractExamples(headings, codeBlocks)
+  return found
+}
 
-  // Extrai props de tabelas
-  const props = extractProps(tables)
+/**
+ * Extrai componentes de uma doc parseada: o principal (H1, senão o title do
+ * frontmatter) e um por seção de componente (`## FormField`, `### Tabs.Trigger`,
+ * subseções de "API Reference"), cada um com as props, exemplos e imports da sua
+ * seção. Tabelas de props sem coluna Type viram diagnóstico `props-table-missing-type`
+ * em `doc.diagnostics`; `plugins` acrescentam campos a cada componente.
+ */
+export function extractComponents(
+  doc: ParsedDoc,
+  options: ExtractOptions = {},
+): ExtractedComponent[] {
+  const mainHeading = doc.headings.find((h) => h.level === 1)
+  const title = mainHeading?.text ?? doc.frontmatter.title
+  const mainName = title?.replace(/\s+/g, '')
+  reportPropsTables(doc)
+
+  // Dono de cada seção: o heading de componente mais interno que a contém
+  const headings = componentHeadings(doc)
+  const scopes = new Map<string, { heading?: HeadingSection; sections: Section[] }>()
+  if (mainName) {
+    scopes.set(mainName, { ...(mainHeading ? { heading: mainHeading } : {}), sections: [] })
+  }
+  for (const section of doc.sections) {
+    const path =
+      section.type === 'heading' ? [...doc.breadcrumb(section), section] : doc.breadcrumb(section)
+    const owner = path.findLast((h) => headings.has(h.idx))
+    const name = owner ? headings.get(owner.idx)! : mainName
+    if (!name) continue
+    if (!scopes.has(name)) scopes.set(name, { ...(owner ? { heading: owner } : {}), sections: [] })
+    scopes.get(name)!.sections.push(section)
+  }
 
-  // Detecta sub-componentes nos imports
-  const subComponents = detectSubComponents(imports, componentName)
+  // Imports de outras seções (ex: um exemplo geral no topo) que trazem o componente
+  const allImports = extractImports(doc.sections)
+  const props = new Map(
+    [...scopes].map(([name, { sections }]) => [
+      name,
+      extractProps(sections.filter((s): s is TableSection => s.type === 'table')),
+    ]),
+  )
+  const context: SubComponentContext = { headings, imports: allImports, props, mainName }
 
-  components.push({
-    name: componentName,
-    slug: mainHeading.slug,
-    imports,
-    examples,
-    props,
-    subComponents,
-  })
+  const components: ExtractedComponent[] = []
+  for (const [name, { heading, sections }] of scopes) {
+    const own = extractImports(sections)
+    const root = name.split('.')[0]!
+    const ownKeys = new Set(own.map(formatImport))
+    const declarations =
+      name === mainName
+        ? own
+        : [...own, ...allImports.filter((d) => !ownKeys.has(formatImport(d)) && bindsName(d, root))]
+    const imports = declarations.map(formatImport)
+
+    const component: ExtractedComponent = {
+      name,
+      slug: heading?.slug ?? slugify(title ?? name),
+      imports,
+      importDeclarations: declarations,
+      examples: extractExamples(doc, sections),
+      props: props.get(name)!,
+      subComponents: detectSubComponents(doc, name, context),
+      demos: extractDemos(doc, sections),
+      frontmatter: doc.frontmatter,
+      warnings: extractWarnings(sections.filter((s): s is CalloutSection => s.type === 'callout')),
+    }
+    for (const plugin of options.plugins ?? []) {
+      Object.assign(component, plugin.extend(component, doc))
+    }
+    components.push(component)
+  }
 
   return components
 }
 
-function extractImports(codeBlocks: CodeSection[]): string[] {
-  const imports = new Set<string>()
+/** Declarações únicas (pela forma normalizada) do ESM e dos blocos ts/tsx/jsx */
+function extractImports(sections: Section[]): ImportDeclaration[] {
+  const imports = new Map<string, ImportDeclaration>()
+  const sources = sections.flatMap((s) => {
+    if (s.type === 'esm') return [s.code]
+    if (s.type === 'code' && (s.lang === 'tsx' || s.lang === 'ts' || s.lang === 'jsx')) {
+      return [s.code]
+    }
+    return []
+  })
 
-  for (const block of codeBlocks) {
-    if (block.lang === 'tsx' || block.lang === 'ts' || block.lang === 'jsx') {
-      const importMatches = block.code.matchAll(/import\s+\{([^}]+)\}\s+from\s+["']([^"']+)["']/g)
-      for (const match of importMatches) {
-        imports.add(`import { ${match[1]!.trim()} } from "${match[2]}";`)
-      }
+  for (const code of sources) {
+    for (const declaration of parseImports(code)) {
+      const key = formatImport(declaration)
+      if (!imports.has(key)) imports.set(key, declaration)
     }
   }
 
-  return [...imports]
+  return [...imports.values()]
 }
 
-function extractExamples(headings: HeadingSection[], codeBlocks: CodeSection[]): CodeExample[] {
+/** A declaração traz `name` (default, namespace ou nomeado) */
+function bindsName(declaration: ImportDeclaration, name: string): boolean {
+  return (
+    declaration.default === name ||
+    declaration.namespace === name ||
+    declaration.named.some((b) => b.imported === name || b.local === name)
+  )
+}
+
+function extractExamples(doc: ParsedDoc, sections: Section[]): CodeExample[] {
   const examples: CodeExample[] = []
-  let currentHeading = 'Example'
 
-  // Mapeia headings por índice
-  const headingMap = new Map<number, string>()
-  for (const h of headings) {
-    headingMap.set(h.idx, h.text)
-  }
-
-  for (const block of codeBlocks) {
-    // Encontra o heading mais próximo anterior
-    for (let i = block.idx - 1; i >= 0; i--) {
-      if (headingMap.has(i)) {
-        currentHeading = headingMap.get(i)!
-        break
-      }
-    }
+  for (const block of sections) {
+    if (block.type !== 'code') continue
+    // Heading mais interno que contém o bloco
+    const owner = doc.breadcrumb(block).at(-1)
 
     // Só inclui TypeScript/JavaScript
     if (['tsx', 'ts', 'jsx', 'js'].includes(block.lang)) {
       examples.push({
-        title: currentHeading,
+        title: owner?.text ?? 'Example',
         lang: block.lang,
         code: block.code,
         filename: block.filename,
@@ -112,6 +310,45 @@ function extractExamples(headings: HeadingSection[], codeBlocks: CodeSection[]):
   return examples
 }
 
+function extractDemos(doc: ParsedDoc, sections: Section[]): DemoReference[] {
+  const demos: DemoReference[] = []
+
+  for (const jsx of sections) {
+    if (jsx.type !== 'jsx') continue
+    if (!/Preview|Demo|Example/i.test(jsx.name)) continue
+    const name = jsx.attributes['name'] ?? jsx.attributes['src']
+    if (typeof name !== 'string') continue
+    demos.push({
+      title: doc.breadcrumb(jsx).at(-1)?.text ?? 'Example',
+      component: jsx.name,
+      name,
+    })
+  }
+
+  return demos
+}
+
+function extractWarnings(callouts: CalloutSection[]): ComponentWarning[] {
+  const warnings: ComponentWarning[] = []
+
+  for (const callout of callouts) {
+    const paragraphs = callout.children.map((s) => (s.type === 'content' ? s.text : s.raw))
+    // No corpo, só o primeiro parágrafo: `> [!WARNING]\n> Deprecated in v2, use X`
+    const deprecated = [callout.label, callout.title, paragraphs[0] ?? ''].some((text) =>
+      /\bdeprecat/i.test(text),
+    )
+    if (!deprecated && callout.kind !== 'warning' && callout.kind !== 'caution') continue
+    warnings.push({
+      kind: callout.kind,
+      title: callout.title,
+      text: paragraphs.join('\n\n'),
+      deprecated,
+    })
+  }
+
+  return warnings
+}
+
 function extractProps(
   tables: { headers: string[]; rows: Record<string, string>[] }[],
 ): PropDefinition[] {
@@ -119,24 +356,49 @@ function extractProps(
 
   for (const table of tables) {
     // Detecta tabela de props (tem colunas como "Prop", "Type", "Default")
-    const hasName = table.headers.some((h) =>
-      ['prop', 'name', 'property'].includes(h.toLowerCase()),
-    )
+    const hasName = table.headers.some((h) => NAME_COLUMNS.includes(h.toLowerCase()))
     const hasType = table.headers.some((h) => ['type'].includes(h.toLowerCase()))
+    const column = (name: string) => table.headers.find((h) => h.toLowerCase() === name)
+    const requiredColumn = column('required')
+    const deprecatedColumn = column('deprecated')
+    const statusColumn = column('status')
 
     if (hasName && hasType) {
       for (const row of table.rows) {
         const name = row['Prop'] || row['Name'] || row['Property'] || row['prop'] || ''
-        const type = row['Type'] || row['type'] || ''
+        const type = (row['Type'] || row['type'] || '').replace(/`/g, '').replace(/\\\|/g, '|')
         const description = row['Description'] || row['description'] || row['Desc'] || ''
         const defaultVal = row['Default'] || row['default'] || ''
 
         if (name) {
+          const marked = name.replace(/`/g, '').trim()
+          const requiredCell = requiredColumn ? (row[requiredColumn] ?? '').trim() : ''
+          const defaultText = defaultVal.replace(/`/g, '').trim()
+          // Só um marcador explícito no início da descrição, e sem default: "Whether the
+          // input is required" descreve a prop `required`, não a obrigatoriedade
+          const hasDefault = Boolean(defaultText) && !NO.test(defaultText)
+          const required =
+            marked.endsWith('*') ||
+            YES.test(requiredCell) ||
+            (REQUIRED_MARKER.test(description) && !hasDefault) ||
+            /^required$/i.test(defaultText)
+              ? true
+              : marked.endsWith('?') || NO.test(requiredCell)
+                ? false
+                : undefined
+          const deprecated =
+            /\bdeprecated\b/i.test(description) ||
+            (deprecatedColumn !== undefined && YES.test((row[deprecatedColumn] ?? '').trim())) ||
+            (statusColumn !== undefined && /deprecated/i.test(row[statusColumn] ?? ''))
+
           props.push({
-            name: name.replace(/`/g, ''),
-            type: type.replace(/`/g, ''),
+            name: marked.replace(/[*?]$/, '').trim(),
+            type,
+            typeModel: parsePropType(type),
             description,
             default: defaultVal || undefined,
+            ...(required !== undefined ? { required } : {}),
+            deprecated,
           })
         }
       }
@@ -146,19 +408,97 @@ function extractProps(
   return props
 }
 
-function detectSubComponents(imports: string[], mainComponent: string): string[] {
-  const subs = new Set<string>()
+/**
+ * Tabela que parece de props (coluna de nome sob um heading de props/API, ou com
+ * Description/Default) mas sem coluna Type: as props dela não são extraídas
+ */
+function reportPropsTables(doc: ParsedDoc): void {
+  for (const table of doc.tables) {
+    const headers = table.headers.map((h) => h.toLowerCase())
+    if (!headers.some((h) => NAME_COLUMNS.includes(h)) || headers.includes('type')) continue
+    const underProps = doc.breadcrumb(table).some((h) => /props|api|propert/i.test(h.text))
+    if (!underProps && !headers.some((h) => ['description', 'default'].includes(h))) continue
+    doc.report({
+      severity: 'warning',
+      code: 'props-table-missing-type',
+      message: `Props table has no Type column (${table.headers.join(', ')}); its props are not extracted`,
+      position: table.position,
+      section: table,
+    })
+  }
+}
+
+interface SubComponentContext {
+  /** Headings de componente (idx → nome) */
+  headings: Map<number, string>
+  /** Imports de toda a doc */
+  imports: ImportDeclaration[]
+  /** Props de cada componente extraído */
+  props: Map<string, PropDefinition[]>
+  mainName?: string
+}
+
+/**
+ * Sub-componentes de `component` na doc inteira: uso em JSX (`<Tabs.List>`,
+ * `<TabsList>`), imports nomeados com o prefixo (`TabsList`, exceto tipos e `*Props`)
+ * e headings de componente (`### Tabs.Trigger`, `### Root` sob a referência da API).
+ * Entradas com a mesma parte são mescladas; o nome do código tem preferência.
+ */
+function detectSubComponents(
+  doc: ParsedDoc,
+  component: string,
+  context: SubComponentContext,
+): SubComponent[] {
+  // Títulos que não são identificadores (`C++ Guide`) não têm sub-componentes
+  if (!COMPONENT_PATH.test(component)) return []
+  const subs = new Map<string, SubComponent>()
+  const prefix = component.replaceAll('.', '\\.')
+  const add = (part: string, name: string, source: SubComponentSource) => {
+    const sub = subs.get(part) ?? { name, part, sources: [], props: [] }
+    if (source !== 'heading' && sub.sources.every((s) => s === 'heading')) sub.name = name
+    if (!sub.sources.includes(source)) sub.sources.push(source)
+    subs.set(part, sub)
+  }
+
+  const code = [
+    ...doc.codeBlocks.filter((b) => ['tsx', 'jsx', 'ts', 'js'].includes(b.lang)).map((b) => b.code),
+    ...doc.byType('jsx').map((s) => s.raw),
+  ]
+  const usage = new RegExp(`<(${prefix}\\.?([A-Z]\\w*))\\b`, 'g')
+  for (const text of code) {
+    for (const match of text.matchAll(usage)) add(match[2]!, match[1]!, 'jsx')
+  }
+
+  const prefixed = new RegExp(`^${prefix}([A-Z]\\w*)$`)
+  for (const declaration of context.imports) {
+    if (declaration.kind !== 'import' || declaration.typeOnly) continue
+    const names = [
+      ...(declaration.default ? [declaration.default] : []),
+      ...declaration.named.filter((b) => !b.typeOnly).map((b) => b.imported),
+    ]
+    for (const name of names) {
+      const part = name.match(prefixed)?.[1]
+      if (part && !part.endsWith('Props')) add(part, name, 'import')
+    }
+  }
 
-  for (const imp of imports) {
-    // Match: Component.SubComponent pattern
-    const pattern = new RegExp(`${mainComponent}\\.(\\w+)`, 'g')
-    const matches = imp.matchAll(pattern)
-    for (const match of matches) {
-      subs.add(match[1]!)
+  const dotted = new RegExp(`^${prefix}\\.?([A-Z]\\w*)$`)
+  for (const [idx, name] of context.headings) {
+    let part = name.match(dotted)?.[1]
+    // `### Root` sob "API Reference" pertence ao componente dono da referência; o
+    // heading do próprio componente (`### Tabs` antes de `### TabsList`) não é parte dele
+    const own = name === component || name === component.split('.')[0]
+    if (!part && !own && IDENTIFIER.test(name) && !PASCAL_NAME.test(name)) {
+      const heading = doc.sections[idx] as HeadingSection
+      const owner = doc.breadcrumb(heading).findLast((h) => context.headings.has(h.idx))
+      if ((owner ? context.headings.get(owner.idx) : context.mainName) === component) part = name
     }
+    if (!part) continue
+    add(part, name, 'heading')
+    subs.get(part)!.props = context.props.get(name) ?? []
   }
 
-  return [...subs]
+  return [...subs.values()]
 }
 
 /**
@@ -173,7 +513,7 @@ export function extractCodeByLang(doc: ParsedDoc, lang: string): CodeSection[] {
  */
 export function extractSnippets(doc: ParsedDoc): Map<string, string> {
   const snippets = new Map<string, string>()
-  const examples = extractExamples(doc.headings, doc.codeBlocks)
+  const examples = extractExamples(doc, doc.codeBlocks)
 
   for (const example of examples) {
     const key = example.filename || `${example.title}.${example.lang}`
@@ -192,10 +532,13 @@ export function generateTypes(component: ExtractedComponent): string {
   if (component.props.length > 0) {
     lines.push(`export interface ${component.name}Props {`)
     for (const prop of component.props) {
-      const optional = prop.default !== undefined ? '?' : ''
-      const comment = prop.description ? `  /** ${prop.description} */` : ''
-      if (comment) lines.push(comment)
-      lines.push(`  ${prop.name}${optional}: ${prop.type};`)
+      // Sem marcação na doc, quem tem default é opcional
+      const optional =
+        prop.required === false || (prop.required === undefined && prop.default !== undefined)
+      const tags = [...(prop.deprecated ? ['@deprecated'] : []), prop.description].filter(Boolean)
+      if (tags.length > 0) lines.push(`  /** ${tags.join(' ')} */`)
+      const type = formatPropType(prop.typeModel ?? parsePropType(prop.type)) || 'unknown'
+      lines.push(`  ${prop.name}${optional ? '?' : ''}: ${type};`)
     }
     lines.push('}')
   }
@@ -0,0 +1,82 @@
+import { test, expect, describe } from 'bun:test'
+import { nestedFences, parseCodeMeta, parseFenceInfo } from './fence'
+
+// ── parseFenceInfo ─────────────────────────────────────────────
+
+describe('parseFenceInfo', () => {
+  test('preserva linguagens com símbolos', () => {
+    expect(parseFenceInfo('```c++')!.lang).toBe('c++')
+    expect(parseFenceInfo('```shell-session')!.lang).toBe('shell-session')
+    expect(parseFenceInfo('~~~objective-c')!.lang).toBe('objective-c')
+  })
+
+  test('separa linguagem do meta', () => {
+    const info = parseFenceInfo('```tsx title="app/page.tsx" {1,3-5}')!
+    expect(info.lang).toBe('tsx')
+    expect(info.meta.raw).toBe('title="app/page.tsx" {1,3-5}')
+  })
+
+  test('fence sem linguagem', () => {
+    expect(parseFenceInfo('```')).toEqual({
+      lang: '',
+      meta: { raw: '', highlight: [], attributes: {} },
+    })
+  })
+
+  test('meta colado na linguagem', () => {
+    const info = parseFenceInfo('```js{2}')!
+    expect(info.lang).toBe('js')
+    expect(info.meta.highlight).toEqual([2])
+  })
+
+  test('retorna undefined para linha que não é fence', () => {
+    expect(parseFenceInfo('    indented code')).toBeUndefined()
+  })
+})
+
+// ── parseCodeMeta ──────────────────────────────────────────────
+
+describe('parseCodeMeta', () => {
+  test('extrai title com aspas duplas ou simples', () => {
+    expect(parseCodeMeta('title="app/page.tsx"').title).toBe('app/page.tsx')
+    expect(parseCodeMeta("title='My Example'").title).toBe('My Example')
+  })
+
+  test('expande e ordena linhas destacadas', () => {
+    expect(parseCodeMeta('{5,1-3} {2}').highlight).toEqual([1, 2, 3, 5])
+  })
+
+  test('flags e pares chave/valor viram attributes', () => {
+    const meta = parseCodeMeta('showLineNumbers filename=utils.ts theme="dark"')
+    expect(meta.attributes).toEqual({ showLineNumbers: true, filename: 'utils.ts', theme: 'dark' })
+  })
+
+  test('ignora marcadores de palavra /regex/', () => {
+    const meta = parseCodeMeta('/useState/ copy')
+    expect(meta.attributes).toEqual({ copy: true })
+  })
+})
+
+// ── nestedFences ───────────────────────────────────────────────
+
+describe('nestedFences', () => {
+  test('fences dentro de itens de lista e blockquotes, em ordem', () => {
+    const raw = [
+      '1. Create:',
+      '',
+      '   ```tsx title="button.tsx"',
+      '   ```ts not-a-fence',
+      '   ```',
+      '2. - ~~~bash',
+      '     npm i',
+      '     ~~~',
+      '> ```json {2}',
+      '> ```',
+    ].join('\n')
+    expect(nestedFences(raw).map((f) => [f.lang, f.meta.raw])).toEqual([
+      ['tsx', 'title="button.tsx"'],
+      ['bash', ''],
+      ['json', '{2}'],
+    ])
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Fence - Interpreta o info string de code fences
+ * ```tsx title="app/page.tsx" {1,3-5} showLineNumbers
+ */
+
+export interface CodeMeta {
+  /** Tudo após a linguagem, sem interpretação */
+  raw: string
+  title?: string
+  /** Linhas destacadas (`{1,3-5}` → `[1, 3, 4, 5]`) */
+  highlight: number[]
+  /** Demais flags: `key=value` vira string, `key` sozinho vira `true` */
+  attributes: Record<string, string | true>
+}
+
+export interface FenceInfo {
+  lang: string
+  meta: CodeMeta
+}
+
+const FENCE_LINE = /^ {0,3}(?:`{3,}|~{3,})(.*)$/
+// Marcadores de blockquote e de item de lista antes do conteúdo da linha
+const CONTAINER_PREFIX = /^(?:[ \t]*(?:>[ \t]?|(?:[-+*]|\d{1,9}[.)])[ \t]+))*/
+const NESTED_FENCE = /^(`{3,}|~{3,})(.*)$/
+const META_TOKEN =
+  /([\w-]+)=(?:"([^"]*)"|'([^']*)'|(\S+))|\{([\d\s,-]+)\}|\/(?:[^/\\]|\\.)+\/|(\S+)/g
+
+function expandRanges(spec: string): number[] {
+  const lines: number[] = []
+  for (const part of spec.split(',')) {
+    const [from, to] = part.trim().split('-').map(Number)
+    if (!from) continue
+    for (let n = from; n <= (to || from); n++) lines.push(n)
+  }
+  return lines
+}
+
+export function parseCodeMeta(raw: string): CodeMeta {
+  const meta: CodeMeta = { raw: raw.trim(), highlight: [], attributes: {} }
+
+  for (const match of raw.matchAll(META_TOKEN)) {
+    const [, key, dq, sq, bare, ranges, flag] = match
+    if (key) {
+      const value = dq ?? sq ?? bare ?? ''
+      if (key === 'title') meta.title = value
+      else meta.attributes[key] = value
+    } else if (ranges) {
+      meta.highlight.push(...expandRanges(ranges))
+    } else if (flag) {
+      meta.attributes[flag] = true
+    }
+  }
+
+  meta.highlight = [...new Set(meta.highlight)].toSorted((a, b) => a - b)
+  return meta
+}
+
+/**
+ * Lê linguagem e meta da linha de abertura de um fence
+ * (`undefined` quando a linha não abre um fence, ex: código indentado)
+ */
+export function parseFenceInfo(line: string): FenceInfo | undefined {
+  const info = line.match(FENCE_LINE)?.[1]?.trim()
+  if (info === undefined) return undefined
+  const lang = info.match(/^[^\s{]+/)?.[0] ?? ''
+  return { lang, meta: parseCodeMeta(info.slice(lang.length)) }
+}
+
+/**
+ * Info de cada fence aberto dentro de um bloco de lista ou blockquote, em ordem
+ * (`1. Crie:\n\n   ```tsx title="button.tsx"`), ignorando marcadores e indentação
+ */
+export function nestedFences(raw: string): FenceInfo[] {
+  const fences: FenceInfo[] = []
+  let open: string | undefined
+  for (const line of raw.split(/\r?\n/)) {
+    const fence = line.replace(CONTAINER_PREFIX, '').trimStart().match(NESTED_FENCE)
+    if (open) {
+      const [, marker = '', rest = ''] = fence ?? []
+      if (marker[0] === open[0] && marker.length >= open.length && !rest.trim()) open = undefined
+      continue
+    }
+    // Info string de fence com crases não pode conter crases
+    if (!fence || (fence[1]![0] === '`' && fence[2]!.includes('`'))) continue
+    open = fence[1]
+    fences.push(parseFenceInfo(fence[0])!)
+  }
+  return fences
+}
@@ -0,0 +1,222 @@
+import { test, expect, describe, beforeAll, afterAll, beforeEach } from 'bun:test'
+import { mkdtemp, readdir, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { fetchText, normalizeDocsUrl } from './fetch'
+import { fetchDocs } from './parser'
+
+const doc = [
+  '# Guide',
+  '',
+  'See [Dialog](./dialog.md#api), [Home](../README.md), [Props](#props) and [Bun](https://bun.sh).',
+  '',
+  '![Preview](./img/preview.png)',
+  '',
+  '## Props',
+].join('\n')
+
+let server: ReturnType<typeof Bun.serve>
+let base: string
+let hits: Record<string, number> = {}
+let dir: string
+
+const markdown = (body: string, init: ResponseInit = {}) =>
+  new Response(body, {
+    ...init,
+    headers: { 'content-type': 'text/markdown; charset=utf-8', ...init.headers },
+  })
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'mdxtractor-fetch-'))
+  server = Bun.serve({
+    port: 0,
+    async fetch(req) {
+      const { pathname } = new URL(req.url)
+      const count = (hits[pathname] = (hits[pathname] ?? 0) + 1)
+      switch (pathname) {
+        case '/docs/guide.md':
+          return markdown(doc)
+        case '/flaky.md':
+          return count < 3 ? new Response('busy', { status: 503 }) : markdown('# Flaky')
+        case '/rate-limited.md':
+          return count < 2
+            ? new Response('slow down', { status: 429, headers: { 'retry-after': '0' } })
+            : markdown('# Rate limited')
+        case '/down.md':
+          return new Response('down', { status: 500 })
+        case '/missing.md':
+          return new Response('not found', { status: 404 })
+        case '/slow.md':
+          await Bun.sleep(count < 2 ? 300 : 0)
+          return markdown('# Slow')
+        case '/page.html':
+          return new Response('<html></html>', { headers: { 'content-type': 'text/html' } })
+        case '/etag.md':
+          if (req.headers.get('if-none-match') === '"v1"') {
+            return new Response(null, { status: 304 })
+          }
+          return markdown('# Cached', { headers: { etag: '"v1"' } })
+        case '/modified.md': {
+          const lastModified = 'Wed, 01 Jan 2025 00:00:00 GMT'
+          if (req.headers.get('if-modified-since') === lastModified) {
+            return new Response(null, { status: 304 })
+          }
+          return markdown('# Modified', { headers: { 'last-modified': lastModified } })
+        }
+        case '/old/guide.md':
+          return Response.redirect(`${base}/docs/guide.md`, 301)
+        case '/auth.md':
+          return req.headers.get('authorization') === 'Bearer token'
+            ? markdown('# Private')
+            : new Response('unauthorized', { status: 401 })
+      }
+      return new Response('not found', { status: 404 })
+    },
+  })
+  base = server.url.href.replace(/\/$/, '')
+})
+
+afterAll(async () => {
+  server.stop(true)
+  await rm(dir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  hits = {}
+})
+
+// ── normalizeDocsUrl ───────────────────────────────────────────
+
+describe('normalizeDocsUrl', () => {
+  test('converte URLs blob/raw do GitHub', () => {
+    expect(normalizeDocsUrl('https://github.com/radix-ui/website/blob/main/docs/tabs.mdx')).toBe(
+      'https://raw.githubusercontent.com/radix-ui/website/main/docs/tabs.mdx',
+    )
+    expect(normalizeDocsUrl('https://github.com/o/r/raw/v1.2/README.md?plain=1#usage')).toBe(
+      'https://raw.githubusercontent.com/o/r/v1.2/README.md',
+    )
+  })
+
+  test('outras URLs não mudam', () => {
+    const urls = [
+      'https://raw.githubusercontent.com/o/r/main/a.md',
+      'https://github.com/o/r/tree/main/docs',
+      'https://example.com/blob/main/a.md',
+    ]
+    expect(urls.map(normalizeDocsUrl)).toEqual(urls)
+  })
+})
+
+// ── fetchDocs ──────────────────────────────────────────────────
+
+describe('fetchDocs', () => {
+  test('resolve links e imagens relativos contra a URL', async () => {
+    const parsed = await fetchDocs(`${base}/docs/guide.md`)
+    expect(parsed.source).toBe(`${base}/docs/guide.md`)
+    expect(parsed.links.map((l) => l.href)).toEqual([
+      `${base}/docs/dialog.md#api`,
+      `${base}/README.md`,
+      '#props',
+      'https://bun.sh',
+    ])
+    expect(parsed.images[0]!.src).toBe(`${base}/docs/img/preview.png`)
+    const [content] = parsed.byType('content')
+    expect(content!.inline[1]).toMatchObject({ type: 'link', href: `${base}/docs/dialog.md#api` })
+  })
+
+  test('links são resolvidos contra a URL final do redirecionamento', async () => {
+    const parsed = await fetchDocs(`${base}/old/guide.md`)
+    expect(parsed.source).toBe(`${base}/old/guide.md`)
+    expect(parsed.links[0]!.href).toBe(`${base}/docs/dialog.md#api`)
+  })
+
+  test('baseUrl explícito tem prioridade', async () => {
+    const parsed = await fetchDocs(`${base}/docs/guide.md`, { baseUrl: 'https://docs.dev/v2/' })
+    expect(parsed.links[0]!.href).toBe('https://docs.dev/v2/dialog.md#api')
+  })
+
+  test('repete em 5xx com backoff', async () => {
+    const parsed = await fetchDocs(`${base}/flaky.md`, { retryDelay: 1 })
+    expect(parsed.title).toBe('Flaky')
+    expect(hits['/flaky.md']).toBe(3)
+  })
+
+  test('repete em 429 respeitando Retry-After', async () => {
+    const parsed = await fetchDocs(`${base}/rate-limited.md`, { retryDelay: 10_000 })
+    expect(parsed.title).toBe('Rate limited')
+    expect(hits['/rate-limited.md']).toBe(2)
+  })
+
+  test('desiste depois das novas tentativas', async () => {
+    await expect(fetchDocs(`${base}/down.md`, { retries: 1, retryDelay: 1 })).rejects.toThrow(
+      `Failed to fetch ${base}/down.md: 500`,
+    )
+    expect(hits['/down.md']).toBe(2)
+  })
+
+  test('não repete erros 4xx', async () => {
+    await expect(fetchDocs(`${base}/missing.md`, { retryDelay: 1 })).rejects.toThrow(': 404')
+    expect(hits['/missing.md']).toBe(1)
+  })
+
+  test('timeout por tentativa', async () => {
+    await expect(fetchDocs(`${base}/slow.md`, { timeout: 50, retries: 0 })).rejects.toThrow(
+      `Timed out fetching ${base}/slow.md after 50ms`,
+    )
+    await Bun.sleep(350)
+    hits = {}
+    const parsed = await fetchDocs(`${base}/slow.md`, { timeout: 50, retryDelay: 1 })
+    expect(parsed.title).toBe('Slow')
+    expect(hits['/slow.md']).toBe(2)
+  })
+
+  test('signal cancela a requisição', async () => {
+    const controller = new AbortController()
+    const pending = fetchDocs(`${base}/slow.md`, { signal: controller.signal })
+    controller.abort()
+    await expect(pending).rejects.toThrow()
+    await Bun.sleep(350)
+  })
+
+  test('rejeita páginas HTML', async () => {
+    await expect(fetchDocs(`${base}/page.html`)).rejects.toThrow(
+      'unexpected content type "text/html"',
+    )
+  })
+
+  test('envia headers extras', async () => {
+    const parsed = await fetchDocs(`${base}/auth.md`, {
+      headers: { authorization: 'Bearer token' },
+    })
+    expect(parsed.title).toBe('Private')
+  })
+})
+
+// ── Cache ──────────────────────────────────────────────────────
+
+describe('cache', () => {
+  test('revalida com ETag e usa o cache em 304', async () => {
+    const cache = join(dir, 'etag')
+    const first = await fetchText(`${base}/etag.md`, { cache })
+    expect(first.cached).toBe(false)
+    expect(await readdir(cache)).toHaveLength(1)
+    const second = await fetchText(`${base}/etag.md`, { cache })
+    expect(second).toMatchObject({ cached: true, content: '# Cached' })
+    expect(hits['/etag.md']).toBe(2)
+  })
+
+  test('revalida com Last-Modified', async () => {
+    const cache = join(dir, 'modified')
+    await fetchDocs(`${base}/modified.md`, { cache })
+    const parsed = await fetchDocs(`${base}/modified.md`, { cache })
+    expect(parsed.title).toBe('Modified')
+    const second = await fetchText(`${base}/modified.md`, { cache })
+    expect(second.cached).toBe(true)
+  })
+
+  test('respostas sem validadores não são guardadas', async () => {
+    const cache = join(dir, 'none')
+    await fetchText(`${base}/docs/guide.md`, { cache })
+    expect(await readdir(cache).catch(() => [])).toEqual([])
+  })
+})
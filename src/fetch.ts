@@ -0,0 +1,192 @@
+/**
+ * Fetch - Baixa markdown remoto de forma resiliente para CI
+ * Timeout por tentativa, retry com backoff em 5xx/429, cache em disco com
+ * requisições condicionais (ETag / Last-Modified) e URLs do GitHub normalizadas
+ */
+
+import { join } from 'node:path'
+
+export interface FetchOptions {
+  /** Tempo máximo de cada tentativa, em ms (padrão: 30000; `0` desliga) */
+  timeout?: number
+  /** Cancela a requisição e as esperas entre tentativas */
+  signal?: AbortSignal
+  /** Novas tentativas após erro de rede, timeout, 5xx ou 429 (padrão: 2) */
+  retries?: number
+  /** Espera antes da primeira nova tentativa, dobrando a cada uma, em ms (padrão: 500) */
+  retryDelay?: number
+  /** Diretório do cache; respostas são revalidadas com `If-None-Match` / `If-Modified-Since` */
+  cache?: string
+  /** Headers extras (ex: `Authorization` para repositórios privados) */
+  headers?: Record<string, string>
+}
+
+export interface FetchedText {
+  /** URL pedida, já normalizada */
+  url: string
+  /** URL final, depois de redirecionamentos */
+  finalUrl: string
+  content: string
+  /** A resposta veio do cache (`304 Not Modified`) */
+  cached: boolean
+}
+
+interface CacheEntry {
+  url: string
+  finalUrl: string
+  etag?: string
+  lastModified?: string
+  content: string
+}
+
+const DEFAULT_TIMEOUT = 30_000
+const DEFAULT_RETRIES = 2
+const DEFAULT_RETRY_DELAY = 500
+/** Teto para `Retry-After`, para um servidor não travar o CI */
+const MAX_RETRY_AFTER = 60_000
+
+const GITHUB_FILE = /^https?:\/\/(?:www\.)?github\.com\/([^/]+)\/([^/]+)\/(?:blob|raw)\/(.+)$/
+
+/**
+ * `github.com/owner/repo/blob/main/docs/a.md` → `raw.githubusercontent.com/owner/repo/main/docs/a.md`.
+ * Outras URLs voltam sem mudança.
+ */
+export function normalizeDocsUrl(url: string): string {
+  const match = url.replace(/[?#].*$/, '').match(GITHUB_FILE)
+  if (!match) return url
+  const [, owner, repo, path] = match
+  return `https://raw.githubusercontent.com/${owner}/${repo}/${path}`
+}
+
+/** Markdown chega como `text/*` (menos HTML), `application/octet-stream` ou tipos `*markdown*` */
+function isTextContent(type: string | null): boolean {
+  if (!type) return true
+  const mime = type.split(';')[0]!.trim().toLowerCase()
+  if (mime === 'text/html' || mime === 'application/xhtml+xml') return false
+  return (
+    mime.startsWith('text/') ||
+    mime === 'application/octet-stream' ||
+    mime.includes('markdown') ||
+    mime.includes('mdx')
+  )
+}
+
+function retryable(status: number): boolean {
+  return status === 429 || status >= 500
+}
+
+/** `Retry-After` em segundos ou data HTTP */
+function retryAfter(res: Response): number | undefined {
+  const header = res.headers.get('retry-after')
+  if (!header) return undefined
+  const seconds = Number(header)
+  const ms = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000
+  return Number.isNaN(ms) ? undefined : Math.min(Math.max(ms, 0), MAX_RETRY_AFTER)
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason)
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(signal!.reason)
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+function cachePath(dir: string, url: string): string {
+  const key = new Bun.CryptoHasher('sha256').update(url).digest('hex')
+  return join(dir, `${key}.json`)
+}
+
+async function readCache(path: string, url: string): Promise<CacheEntry | undefined> {
+  const file = Bun.file(path)
+  if (!(await file.exists())) return undefined
+  try {
+    const entry = (await file.json()) as CacheEntry
+    return entry.url === url && typeof entry.content === 'string' ? entry : undefined
+  } catch {
+    // Cache corrompido é ignorado e sobrescrito
+    return undefined
+  }
+}
+
+/**
+ * Baixa o texto de uma URL de documentação. Lança erro em status de falha,
+ * timeout (depois das novas tentativas) ou conteúdo que não é texto (ex: página HTML).
+ */
+export async function fetchText(input: string, options: FetchOptions = {}): Promise<FetchedText> {
+  const url = normalizeDocsUrl(input)
+  const {
+    timeout = DEFAULT_TIMEOUT,
+    signal,
+    retries = DEFAULT_RETRIES,
+    retryDelay = DEFAULT_RETRY_DELAY,
+  } = options
+
+  const cacheFile = options.cache ? cachePath(options.cache, url) : undefined
+  const cached = cacheFile ? await readCache(cacheFile, url) : undefined
+  const headers = new Headers(options.headers)
+  if (cached?.etag) headers.set('if-none-match', cached.etag)
+  if (cached?.lastModified) headers.set('if-modified-since', cached.lastModified)
+
+  for (let attempt = 0; ; attempt++) {
+    const signals = [signal, timeout > 0 ? AbortSignal.timeout(timeout) : undefined]
+    const attemptSignal = AbortSignal.any(signals.filter((s) => s !== undefined))
+    const backoff = retryDelay * 2 ** attempt
+
+    let res: Response
+    let content: string
+    try {
+      res = await fetch(url, { headers, signal: attemptSignal })
+      if (res.status === 304 && cached) {
+        return { url, finalUrl: cached.finalUrl, content: cached.content, cached: true }
+      }
+      if (retryable(res.status) && attempt < retries) {
+        await res.body?.cancel()
+        await delay(retryAfter(res) ?? backoff, signal)
+        continue
+      }
+      if (!res.ok) throw new Error(`Failed to fetch ${url}: ${res.status}`)
+      const type = res.headers.get('content-type')
+      if (!isTextContent(type)) {
+        await res.body?.cancel()
+        throw new Error(`Failed to fetch ${url}: unexpected content type "${type}"`)
+      }
+      content = await res.text()
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason
+      const timedOut = error instanceof DOMException && error.name === 'TimeoutError'
+      // Erros de rede e timeouts são tentados de novo; status e content type não
+      if (!timedOut && !(error instanceof TypeError)) throw error
+      if (attempt < retries) {
+        await delay(backoff, signal)
+        continue
+      }
+      if (timedOut) throw new Error(`Timed out fetching ${url} after ${timeout}ms`)
+      throw new Error(`Failed to fetch ${url}: ${(error as Error).message}`)
+    }
+
+    const finalUrl = res.url || url
+    if (cacheFile) {
+      const etag = res.headers.get('etag')
+      const lastModified = res.headers.get('last-modified')
+      if (etag || lastModified) {
+        const entry: CacheEntry = {
+          url,
+          finalUrl,
+          ...(etag ? { etag } : {}),
+          ...(lastModified ? { lastModified } : {}),
+          content,
+        }
+        await Bun.write(cacheFile, JSON.stringify(entry))
+      }
+    }
+    return { url, finalUrl, content, cached: false }
+  }
+}
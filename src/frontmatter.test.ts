@@ -0,0 +1,51 @@
+import { test, expect, describe } from 'bun:test'
+import { parseFrontmatter } from './frontmatter'
+
+// ── parseFrontmatter ───────────────────────────────────────────
+
+describe('parseFrontmatter', () => {
+  test('lê frontmatter YAML', () => {
+    const fm = parseFrontmatter('---\ntitle: Button\ndescription: A button.\n---')
+    expect(fm).toEqual({ title: 'Button', description: 'A button.' })
+  })
+
+  test('lê frontmatter TOML', () => {
+    const fm = parseFrontmatter('+++\ntitle = "Button"\ntags = ["ui", "form"]\n+++')
+    expect(fm).toEqual({ title: 'Button', tags: ['ui', 'form'] })
+  })
+
+  test('normaliza campos conhecidos para string', () => {
+    const fm = parseFrontmatter('---\nsince: 1.2\nstatus: true\n---')
+    expect(fm.since).toBe('1.2')
+    expect(fm.status).toBe('true')
+  })
+
+  test('tags em string separada por vírgula viram array', () => {
+    const fm = parseFrontmatter('---\ntags: ui, form\n---')
+    expect(fm.tags).toEqual(['ui', 'form'])
+  })
+
+  test('descarta campos conhecidos com tipo inválido', () => {
+    const fm = parseFrontmatter('---\ntitle:\n  nested: x\n---')
+    expect(fm.title).toBeUndefined()
+  })
+
+  test('preserva chaves desconhecidas', () => {
+    const fm = parseFrontmatter('---\nlinks:\n  doc: https://example.com\n---')
+    expect(fm['links']).toEqual({ doc: 'https://example.com' })
+  })
+
+  test('frontmatter vazio retorna objeto vazio', () => {
+    expect(parseFrontmatter('---\n---')).toEqual({})
+  })
+
+  test('lança erro para YAML inválido', () => {
+    expect(() => parseFrontmatter('---\ntitle: [unclosed\n---', 'bad.md')).toThrow(
+      'Invalid YAML frontmatter in bad.md',
+    )
+  })
+
+  test('lança erro quando não é um mapa', () => {
+    expect(() => parseFrontmatter('---\n- a\n- b\n---')).toThrow('expected a key/value map')
+  })
+})
@@ -0,0 +1,70 @@
+/**
+ * Frontmatter - Lê o bloco YAML (`---`) ou TOML (`+++`) do início do documento
+ * Usa Bun.YAML / Bun.TOML
+ */
+
+export interface Frontmatter {
+  title?: string
+  description?: string
+  status?: string
+  since?: string
+  tags?: string[]
+  /** Demais chaves, sem normalização */
+  [key: string]: unknown
+}
+
+const STRING_FIELDS = ['title', 'description', 'status', 'since'] as const
+
+function isScalar(value: unknown): value is string | number | boolean {
+  return ['string', 'number', 'boolean'].includes(typeof value)
+}
+
+/**
+ * Normaliza os campos conhecidos: `since: 1.2` vira `'1.2'` e
+ * `tags: a, b` vira `['a', 'b']`
+ */
+function normalize(data: Record<string, unknown>): Frontmatter {
+  const frontmatter: Frontmatter = { ...data }
+
+  for (const field of STRING_FIELDS) {
+    const value = data[field]
+    if (isScalar(value)) frontmatter[field] = String(value)
+    else delete frontmatter[field]
+  }
+
+  const tags = data['tags']
+  if (Array.isArray(tags)) {
+    frontmatter.tags = tags.filter(isScalar).map(String)
+  } else if (typeof tags === 'string') {
+    frontmatter.tags = tags
+      .split(',')
+      .map((t) => t.trim())
+      .filter(Boolean)
+  } else {
+    delete frontmatter.tags
+  }
+
+  return frontmatter
+}
+
+/**
+ * Converte o bloco de frontmatter (com delimitadores) em objeto
+ */
+export function parseFrontmatter(raw: string, source = 'unknown'): Frontmatter {
+  const lines = raw.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const format = lines[0]!.startsWith('+++') ? 'TOML' : 'YAML'
+  const body = lines.slice(1, -1).join('\n')
+
+  let data: unknown
+  try {
+    data = format === 'TOML' ? Bun.TOML.parse(body) : Bun.YAML.parse(body)
+  } catch (err) {
+    throw new Error(`Invalid ${format} frontmatter in ${source}: ${(err as Error).message}`)
+  }
+
+  if (data === null || data === undefined) return {}
+  if (typeof data !== 'object' || Array.isArray(data)) {
+    throw new Error(`Invalid ${format} frontmatter in ${source}: expected a key/value map`)
+  }
+  return normalize(data as Record<string, unknown>)
+}
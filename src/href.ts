@@ -0,0 +1,20 @@
+/**
+ * Href - Helpers para os hrefs de links e imagens
+ */
+
+// `https:`, `mailto:`, `data:`... e URLs sem protocolo (`//cdn.com/x.png`)
+const EXTERNAL = /^(?:[a-z][a-z\d+.-]*:|\/\/)/i
+
+/** Href com protocolo ou sem protocolo (`//cdn`), que não aponta para um arquivo local */
+export function isExternalHref(href: string): boolean {
+  return EXTERNAL.test(href)
+}
+
+/** `%20` → espaço; hrefs com escapes inválidos ficam como estão */
+export function decodeHref(text: string): string {
+  try {
+    return decodeURIComponent(text)
+  } catch {
+    return text
+  }
+}
@@ -0,0 +1,136 @@
+import { test, expect, describe } from 'bun:test'
+import { formatImport, parseImports } from './imports'
+
+// ── parseImports ───────────────────────────────────────────────
+
+describe('parseImports', () => {
+  test('default, namespace, nomeados com alias e só de efeito', () => {
+    const code = [
+      'import React from "react"',
+      "import * as Tabs from '@ui/tabs'",
+      'import Dialog, { DialogTrigger as Trigger, DialogContent } from "@ui/dialog"',
+      "import './styles.css'",
+    ].join('\n')
+    expect(parseImports(code)).toEqual([
+      {
+        kind: 'import',
+        source: 'react',
+        default: 'React',
+        named: [],
+        typeOnly: false,
+        sideEffect: false,
+      },
+      {
+        kind: 'import',
+        source: '@ui/tabs',
+        namespace: 'Tabs',
+        named: [],
+        typeOnly: false,
+        sideEffect: false,
+      },
+      {
+        kind: 'import',
+        source: '@ui/dialog',
+        default: 'Dialog',
+        named: [
+          { imported: 'DialogTrigger', local: 'Trigger', typeOnly: false },
+          { imported: 'DialogContent', local: 'DialogContent', typeOnly: false },
+        ],
+        typeOnly: false,
+        sideEffect: false,
+      },
+      { kind: 'import', source: './styles.css', named: [], typeOnly: false, sideEffect: true },
+    ])
+  })
+
+  test('import type e type por binding', () => {
+    const [all, mixed] = parseImports(
+      'import type { ButtonProps } from "@ui/button"\nimport { Button, type Size } from "@ui/button"',
+    )
+    expect(all!.typeOnly).toBe(true)
+    expect(all!.named).toEqual([{ imported: 'ButtonProps', local: 'ButtonProps', typeOnly: true }])
+    expect(mixed!.typeOnly).toBe(false)
+    expect(mixed!.named.map((b) => [b.imported, b.typeOnly])).toEqual([
+      ['Button', false],
+      ['Size', true],
+    ])
+  })
+
+  test('lista de especificadores em várias linhas, com comentários', () => {
+    const code = `import {
+  Form, // raiz
+  FormField,
+  /* item */ FormItem,
+} from "@/ui/form";`
+    expect(parseImports(code)[0]!.named.map((b) => b.local)).toEqual([
+      'Form',
+      'FormField',
+      'FormItem',
+    ])
+  })
+
+  test('export … from', () => {
+    const code = [
+      'export { Button, buttonVariants as variants } from "./button"',
+      'export * from "./dialog"',
+      'export * as Tabs from "./tabs"',
+      'export type { Props } from "./types"',
+      'export { local }',
+      'export const x = 1',
+    ].join('\n')
+    expect(parseImports(code).map(formatImport)).toEqual([
+      'export { Button, buttonVariants as variants } from "./button";',
+      'export * from "./dialog";',
+      'export * as Tabs from "./tabs";',
+      'export type { Props } from "./types";',
+    ])
+  })
+
+  test('ignora import dinâmico, import.meta, strings, comentários e template literals', () => {
+    const code = [
+      'const Lazy = lazy(() => import("./lazy"))',
+      'console.log(import.meta.url)',
+      '// import { A } from "a"',
+      'const s = \'import { B } from "b"\'',
+      'const t = `',
+      'import { C } from "c"',
+      '`',
+      'const r = /import "d"/',
+    ].join('\n')
+    expect(parseImports(code)).toEqual([])
+  })
+
+  test('JSX com apóstrofo não esconde os imports seguintes', () => {
+    const code = [
+      'import { Button } from "@ui/button"',
+      "const a = <Button>Don't click</Button>",
+      'import { Icon } from "@ui/icon"',
+    ].join('\n')
+    expect(parseImports(code).map((d) => d.source)).toEqual(['@ui/button', '@ui/icon'])
+  })
+
+  test('import no meio de uma expressão não conta', () => {
+    expect(parseImports('foo.import { A } from "a"')).toEqual([])
+    expect(parseImports('import { A } from "a"; import { B } from "b"')).toHaveLength(2)
+  })
+})
+
+// ── formatImport ───────────────────────────────────────────────
+
+describe('formatImport', () => {
+  test('normaliza em uma linha com aspas duplas', () => {
+    const code = `import Dialog, {
+  type DialogProps as Props,
+  "content-x" as ContentX,
+} from '@ui/dialog'
+import type * as T from './types'
+import {} from 'empty'
+import './x.css'`
+    expect(parseImports(code).map(formatImport)).toEqual([
+      'import Dialog, { type DialogProps as Props, "content-x" as ContentX } from "@ui/dialog";',
+      'import type * as T from "./types";',
+      'import {} from "empty";',
+      'import "./x.css";',
+    ])
+  })
+})
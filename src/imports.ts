@@ -0,0 +1,286 @@
+/**
+ * Imports - Declarações `import`/`export … from` de código TS/JS como dados
+ * Tokenizador mínimo: ignora comentários, strings e template literals, então
+ * imports em várias linhas e JSX no mesmo bloco não atrapalham
+ */
+
+export interface ImportBinding {
+  /** Nome exportado pelo módulo */
+  imported: string
+  /** Nome local (igual a `imported` sem `as`); em `export { a as b }` é `b` */
+  local: string
+  /** `import type { A }` ou `import { type A }` */
+  typeOnly: boolean
+}
+
+export interface ImportDeclaration {
+  /** `export` para reexportações (`export { A } from`, `export * from`) */
+  kind: 'import' | 'export'
+  /** Especificador do módulo (`@ui/button`, `./styles.css`) */
+  source: string
+  /** `import Button from` */
+  default?: string
+  /** `import * as Tabs from`, `export * as Tabs from`; `*` em `export * from` */
+  namespace?: string
+  named: ImportBinding[]
+  /** `import type`, `export type` */
+  typeOnly: boolean
+  /** Sem bindings: `import './styles.css'` */
+  sideEffect: boolean
+}
+
+interface Token {
+  kind: 'word' | 'string' | 'punct'
+  /** Conteúdo, sem aspas no caso de strings */
+  value: string
+  /** Há quebra de linha entre o token anterior e este */
+  newline: boolean
+}
+
+const WORD_START = /[A-Za-z_$]/
+const WORD_CHAR = /[\w$]/
+// Depois destas palavras, `/` começa uma regex e não uma divisão
+const KEYWORDS_BEFORE_EXPRESSION = new Set(['return', 'typeof', 'case', 'in', 'of', 'yield'])
+
+function tokenize(code: string): Token[] {
+  const tokens: Token[] = []
+  let newline = true
+  let i = 0
+  const push = (kind: Token['kind'], value: string) => {
+    tokens.push({ kind, value, newline })
+    newline = false
+  }
+
+  while (i < code.length) {
+    const char = code[i]!
+    if (char === '\n') {
+      newline = true
+      i++
+    } else if (/\s/.test(char)) {
+      i++
+    } else if (code.startsWith('//', i)) {
+      const end = code.indexOf('\n', i)
+      i = end === -1 ? code.length : end
+    } else if (code.startsWith('/*', i)) {
+      const end = code.indexOf('*/', i + 2)
+      const stop = end === -1 ? code.length : end + 2
+      if (code.slice(i, stop).includes('\n')) newline = true
+      i = stop
+    } else if (char === '"' || char === "'") {
+      // Strings não atravessam linhas: um apóstrofo solto em texto JSX só afeta a linha
+      let j = i + 1
+      while (j < code.length && code[j] !== char && code[j] !== '\n') j += code[j] === '\\' ? 2 : 1
+      if (code[j] === char) {
+        push('string', code.slice(i + 1, j))
+        i = j + 1
+      } else {
+        push('punct', char)
+        i++
+      }
+    } else if (char === '`') {
+      let j = i + 1
+      while (j < code.length && code[j] !== '`') j += code[j] === '\\' ? 2 : 1
+      push('punct', '`')
+      i = j + 1
+    } else if (WORD_START.test(char)) {
+      let j = i + 1
+      while (j < code.length && WORD_CHAR.test(code[j]!)) j++
+      push('word', code.slice(i, j))
+      i = j
+    } else if (char === '/' && startsRegex(tokens.at(-1))) {
+      let j = i + 1
+      let inClass = false
+      while (j < code.length && code[j] !== '\n' && (code[j] !== '/' || inClass)) {
+        if (code[j] === '[') inClass = true
+        if (code[j] === ']') inClass = false
+        j += code[j] === '\\' ? 2 : 1
+      }
+      push('punct', '/')
+      // Regex sem fechamento termina na linha; a quebra fica para o próximo token
+      i = code[j] === '/' ? j + 1 : j
+    } else {
+      push('punct', char)
+      i++
+    }
+  }
+
+  return tokens
+}
+
+function startsRegex(previous: Token | undefined): boolean {
+  if (!previous) return true
+  if (previous.kind === 'string') return false
+  if (previous.kind === 'word') return KEYWORDS_BEFORE_EXPRESSION.has(previous.value)
+  return !')]}'.includes(previous.value)
+}
+
+/** `{ A, type B, C as D, "e-f" as g }` a partir do `{`; devolve o índice após o `}` */
+function parseBindings(
+  tokens: Token[],
+  start: number,
+  typeOnly: boolean,
+): { named: ImportBinding[]; next: number } | undefined {
+  const named: ImportBinding[] = []
+  let i = start + 1
+
+  while (tokens[i] && tokens[i]!.value !== '}') {
+    let token = tokens[i]!
+    let bindingType = typeOnly
+    const after = tokens[i + 1]
+    // `type` é modificador quando seguido de um nome (`{ type A }`), não em `{ type }`
+    if (token.value === 'type' && after && after.kind !== 'punct' && after.value !== 'as') {
+      bindingType = true
+      token = tokens[++i]!
+    }
+    if (token.kind === 'punct') return undefined
+    const imported = token.value
+    let local = imported
+    i++
+    if (tokens[i]?.value === 'as') {
+      const alias = tokens[i + 1]
+      if (!alias || alias.kind === 'punct') return undefined
+      local = alias.value
+      i += 2
+    }
+    named.push({ imported, local, typeOnly: bindingType })
+    if (tokens[i]?.value === ',') i++
+    else if (tokens[i]?.value !== '}') return undefined
+  }
+
+  return tokens[i] ? { named, next: i + 1 } : undefined
+}
+
+/** `from "module"` em `tokens[i]`; devolve o especificador */
+function parseSource(tokens: Token[], i: number): string | undefined {
+  const source = tokens[i + 1]
+  return tokens[i]?.value === 'from' && source?.kind === 'string' ? source.value : undefined
+}
+
+function parseImport(tokens: Token[], start: number): ImportDeclaration | undefined {
+  let i = start + 1
+  const first = tokens[i]
+  if (!first) return undefined
+  if (first.kind === 'string') {
+    return { kind: 'import', source: first.value, named: [], typeOnly: false, sideEffect: true }
+  }
+
+  // `import type X from`, mas não `import type from` (default chamado `type`)
+  const typeOnly =
+    first.value === 'type' && tokens[i + 1] !== undefined && tokens[i + 1]!.value !== 'from'
+  if (typeOnly) i++
+
+  const declaration: ImportDeclaration = {
+    kind: 'import',
+    source: '',
+    named: [],
+    typeOnly,
+    sideEffect: false,
+  }
+  if (tokens[i]?.kind === 'word' && tokens[i]!.value !== 'from') {
+    declaration.default = tokens[i]!.value
+    i++
+    if (tokens[i]?.value === ',') i++
+  }
+  if (tokens[i]?.value === '*') {
+    if (tokens[i + 1]?.value !== 'as' || tokens[i + 2]?.kind !== 'word') return undefined
+    declaration.namespace = tokens[i + 2]!.value
+    i += 3
+  } else if (tokens[i]?.value === '{') {
+    const bindings = parseBindings(tokens, i, typeOnly)
+    if (!bindings) return undefined
+    declaration.named = bindings.named
+    i = bindings.next
+  }
+
+  // `import(…)`, `import.meta`, `import x = require(…)`
+  const source = parseSource(tokens, i)
+  if (source === undefined) return undefined
+  declaration.source = source
+  return declaration
+}
+
+function parseExport(tokens: Token[], start: number): ImportDeclaration | undefined {
+  let i = start + 1
+  const typeOnly = tokens[i]?.value === 'type' && '{*'.includes(tokens[i + 1]?.value ?? '-')
+  if (typeOnly) i++
+
+  const declaration: ImportDeclaration = {
+    kind: 'export',
+    source: '',
+    named: [],
+    typeOnly,
+    sideEffect: false,
+  }
+  if (tokens[i]?.value === '*') {
+    i++
+    if (tokens[i]?.value === 'as') {
+      const name = tokens[i + 1]
+      if (!name || name.kind === 'punct') return undefined
+      declaration.namespace = name.value
+      i += 2
+    } else {
+      declaration.namespace = '*'
+    }
+  } else if (tokens[i]?.value === '{') {
+    const bindings = parseBindings(tokens, i, typeOnly)
+    if (!bindings) return undefined
+    declaration.named = bindings.named
+    i = bindings.next
+  } else {
+    return undefined
+  }
+
+  // `export { a, b }` sem `from` exporta nomes locais: não é import
+  const source = parseSource(tokens, i)
+  if (source === undefined) return undefined
+  declaration.source = source
+  return declaration
+}
+
+/**
+ * Declarações `import` e `export … from` de um trecho de código, na ordem em que
+ * aparecem: default, namespace e nomeados (com alias e `type`), imports só de efeito
+ * (`import './styles.css'`) e reexportações. `import()` dinâmico e `require` ficam de fora.
+ */
+export function parseImports(code: string): ImportDeclaration[] {
+  const tokens = tokenize(code)
+  const declarations: ImportDeclaration[] = []
+
+  tokens.forEach((token, i) => {
+    if (token.kind !== 'word' || (token.value !== 'import' && token.value !== 'export')) return
+    // Só no início de uma instrução
+    const previous = tokens[i - 1]
+    if (previous && !token.newline && previous.value !== ';' && previous.value !== '}') return
+    const declaration = token.value === 'import' ? parseImport(tokens, i) : parseExport(tokens, i)
+    if (declaration) declarations.push(declaration)
+  })
+
+  return declarations
+}
+
+const quoteName = (name: string) => (/^[A-Za-z_$][\w$]*$/.test(name) ? name : `"${name}"`)
+
+/**
+ * Declaração normalizada em uma linha, com aspas duplas e `;`:
+ * `import Button, { type ButtonProps as Props } from "@ui/button";`
+ */
+export function formatImport(declaration: ImportDeclaration): string {
+  const { kind, source, named, typeOnly } = declaration
+  if (declaration.sideEffect) return `import "${source}";`
+
+  const clauses: string[] = []
+  if (declaration.default) clauses.push(declaration.default)
+  if (declaration.namespace) {
+    clauses.push(declaration.namespace === '*' ? '*' : `* as ${quoteName(declaration.namespace)}`)
+  }
+  if (named.length > 0 || clauses.length === 0) {
+    const bindings = named.map((binding) => {
+      const type = binding.typeOnly && !typeOnly ? 'type ' : ''
+      const alias = binding.local !== binding.imported ? ` as ${quoteName(binding.local)}` : ''
+      return `${type}${quoteName(binding.imported)}${alias}`
+    })
+    clauses.push(bindings.length > 0 ? `{ ${bindings.join(', ')} }` : '{}')
+  }
+
+  return `${kind}${typeOnly ? ' type' : ''} ${clauses.join(', ')} from "${source}";`
+}
@@ -1,2 +1,11 @@
+export * from './corpus'
+export * from './crawl'
+export * from './diff'
+export * from './edit'
 export * from './extractor'
+export * from './imports'
+export * from './links'
+export * from './lint'
 export * from './parser'
+export * from './proptype'
+export * from './search'
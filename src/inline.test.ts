@@ -0,0 +1,85 @@
+import { test, expect, describe } from 'bun:test'
+import { createInlineBuilder, decodeEntities, inlineLinks, inlineText } from './inline'
+import type { InlineNode } from './inline'
+
+// ── decodeEntities ─────────────────────────────────────────────
+
+describe('decodeEntities', () => {
+  test('decodifica entidades nomeadas e numéricas', () => {
+    expect(decodeEntities('&quot;a&quot; &amp; &lt;b&gt; &#39;c&#39; &#x41;')).toBe(
+      `"a" & <b> 'c' A`,
+    )
+  })
+
+  test('mantém entidades desconhecidas', () => {
+    expect(decodeEntities('&unknown; & plain')).toBe('&unknown; & plain')
+  })
+})
+
+// ── inlineText / inlineLinks ───────────────────────────────────
+
+describe('inlineText / inlineLinks', () => {
+  const nodes: InlineNode[] = [
+    { type: 'text', value: 'See ' },
+    {
+      type: 'strong',
+      children: [{ type: 'link', href: '#a', children: [{ type: 'code', value: 'a' }] }],
+    },
+    { type: 'image', src: 'x.png', alt: 'x' },
+  ]
+
+  test('texto plano ignora imagens', () => {
+    expect(inlineText(nodes)).toBe('See a')
+  })
+
+  test('encontra links aninhados', () => {
+    expect(inlineLinks(nodes).map((l) => l.href)).toEqual(['#a'])
+  })
+})
+
+// ── createInlineBuilder ────────────────────────────────────────
+
+describe('createInlineBuilder', () => {
+  test('agrupa texto e elementos abertos', () => {
+    const b = createInlineBuilder()
+    b.begin()
+    b.text('  a ')
+    b.text('&amp; ')
+    b.open({ type: 'emphasis', children: [] })
+    b.text('b')
+    b.close()
+    b.text('  ')
+    expect(b.end()).toEqual([
+      { type: 'text', value: 'a & ' },
+      { type: 'emphasis', children: [{ type: 'text', value: 'b' }] },
+    ])
+  })
+
+  test('containers aninhados não misturam texto', () => {
+    const b = createInlineBuilder()
+    b.begin()
+    b.text('outer')
+    b.begin()
+    b.text('inner')
+    expect(b.end()).toEqual([{ type: 'text', value: 'inner' }])
+    expect(b.end()).toEqual([{ type: 'text', value: 'outer' }])
+  })
+
+  test('captura suspensa descarta texto', () => {
+    const b = createInlineBuilder()
+    b.begin()
+    b.begin(false)
+    b.text('ignored')
+    expect(b.end()).toEqual([])
+    expect(b.end()).toEqual([])
+  })
+
+  test('código inline acumula em value', () => {
+    const b = createInlineBuilder()
+    b.begin()
+    b.open({ type: 'code', value: '' })
+    b.text('&quot;sm&quot;')
+    b.close()
+    expect(b.end()).toEqual([{ type: 'code', value: '"sm"' }])
+  })
+})
@@ -0,0 +1,171 @@
+/**
+ * Inline - Árvore de conteúdo inline (texto, código, links, ênfase, imagens)
+ * Montada a partir dos eventos do HTMLRewriter
+ */
+
+export interface InlineText {
+  type: 'text'
+  value: string
+}
+
+export interface InlineCode {
+  type: 'code'
+  value: string
+}
+
+export interface InlineLink {
+  type: 'link'
+  href: string
+  title?: string
+  children: InlineNode[]
+}
+
+export interface InlineEmphasis {
+  type: 'emphasis'
+  children: InlineNode[]
+}
+
+export interface InlineStrong {
+  type: 'strong'
+  children: InlineNode[]
+}
+
+export interface InlineImage {
+  type: 'image'
+  src: string
+  alt: string
+  title?: string
+}
+
+export type InlineNode =
+  | InlineText
+  | InlineCode
+  | InlineLink
+  | InlineEmphasis
+  | InlineStrong
+  | InlineImage
+
+type InlineParent = { children: InlineNode[] }
+
+const ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: '\u00a0',
+}
+
+/** Decodifica as entidades HTML que o Bun.markdown emite */
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[\da-f]+|#\d+|\w+);/gi, (entity, name: string) => {
+    if (name[0] === '#') {
+      const code =
+        name[1] === 'x' || name[1] === 'X' ? parseInt(name.slice(2), 16) : Number(name.slice(1))
+      return Number.isNaN(code) ? entity : String.fromCodePoint(code)
+    }
+    return ENTITIES[name] ?? entity
+  })
+}
+
+/** Texto plano de uma árvore inline (imagens não contribuem) */
+export function inlineText(nodes: InlineNode[]): string {
+  return nodes
+    .map((node) => {
+      if (node.type === 'text' || node.type === 'code') return node.value
+      if (node.type === 'image') return ''
+      return inlineText(node.children)
+    })
+    .join('')
+}
+
+/** Todos os links de uma árvore inline, incluindo os aninhados em ênfase */
+export function inlineLinks(nodes: InlineNode[]): InlineLink[] {
+  return nodes.flatMap((node) => {
+    if (node.type === 'link') return [node, ...inlineLinks(node.children)]
+    if (node.type === 'emphasis' || node.type === 'strong') return inlineLinks(node.children)
+    return []
+  })
+}
+
+/** Todas as imagens de uma árvore inline, incluindo as que estão dentro de links */
+export function inlineImages(nodes: InlineNode[]): InlineImage[] {
+  return nodes.flatMap((node) => {
+    if (node.type === 'image') return [node]
+    if (node.type === 'text' || node.type === 'code') return []
+    return inlineImages(node.children)
+  })
+}
+
+function decodeTree(nodes: InlineNode[]): InlineNode[] {
+  for (const node of nodes) {
+    if (node.type === 'text' || node.type === 'code') node.value = decodeEntities(node.value)
+    else if (node.type !== 'image') decodeTree(node.children)
+  }
+  return nodes
+}
+
+/** Remove espaços nas pontas do container e nós de texto que ficaram vazios */
+function trimEdges(nodes: InlineNode[]): InlineNode[] {
+  const first = nodes[0]
+  if (first?.type === 'text') first.value = first.value.trimStart()
+  const last = nodes.at(-1)
+  if (last?.type === 'text') last.value = last.value.trimEnd()
+  return nodes.filter((n) => n.type !== 'text' || n.value !== '')
+}
+
+export interface InlineBuilder {
+  /** Abre um container (parágrafo, item, célula); `capture: false` descarta o texto (ex: `pre`) */
+  begin(capture?: boolean): void
+  /** Fecha o container atual e devolve seus nós */
+  end(): InlineNode[]
+  /** Abre um elemento com filhos (link, ênfase, código) */
+  open(node: InlineLink | InlineEmphasis | InlineStrong | InlineCode): void
+  close(): void
+  /** Elemento sem filhos (imagem) */
+  leaf(node: InlineNode): void
+  text(value: string): void
+}
+
+export function createInlineBuilder(): InlineBuilder {
+  // Cada container tem sua pilha de elementos abertos; `null` = captura suspensa
+  const containers: ((InlineParent | InlineCode)[] | null)[] = []
+
+  const top = () => containers.at(-1)?.at(-1)
+
+  return {
+    begin(capture = true) {
+      containers.push(capture ? [{ children: [] }] : null)
+    },
+    end() {
+      const stack = containers.pop()
+      const root = stack?.[0] as InlineParent | undefined
+      return root ? trimEdges(decodeTree(root.children)) : []
+    },
+    open(node) {
+      const parent = top()
+      if (!parent || 'value' in parent) return
+      parent.children.push(node)
+      containers.at(-1)!.push(node)
+    },
+    close() {
+      const stack = containers.at(-1)
+      if (stack && stack.length > 1) stack.pop()
+    },
+    leaf(node) {
+      const parent = top()
+      if (parent && 'children' in parent) parent.children.push(node)
+    },
+    text(value) {
+      const parent = top()
+      if (!parent) return
+      if ('value' in parent) {
+        parent.value += value
+        return
+      }
+      const last = parent.children.at(-1)
+      if (last?.type === 'text') last.value += value
+      else parent.children.push({ type: 'text', value })
+    },
+  }
+}
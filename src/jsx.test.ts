@@ -0,0 +1,80 @@
+import { test, expect, describe } from 'bun:test'
+import { readJsxTag, findJsxElement } from './jsx'
+
+// ── readJsxTag ─────────────────────────────────────────────────
+
+describe('readJsxTag', () => {
+  test('lê nome e atributos string', () => {
+    const tag = readJsxTag('<ComponentPreview name="button-demo" />', 0)!
+    expect(tag.name).toBe('ComponentPreview')
+    expect(tag.attributes).toEqual({ name: 'button-demo' })
+    expect(tag.selfClosing).toBe(true)
+  })
+
+  test('atributos de expressão, booleanos e aspas simples', () => {
+    const tag = readJsxTag(`<Tabs defaultValue='a' items={[1, 2]} disabled>`, 0)!
+    expect(tag.attributes).toEqual({
+      defaultValue: 'a',
+      items: { expression: '[1, 2]' },
+      disabled: true,
+    })
+    expect(tag.selfClosing).toBe(false)
+  })
+
+  test('expressões com chaves e strings aninhadas', () => {
+    const tag = readJsxTag(`<Demo style={{ content: "}" }} />`, 0)!
+    expect(tag.attributes['style']).toEqual({ expression: '{ content: "}" }' })
+  })
+
+  test('ignora spread', () => {
+    const tag = readJsxTag('<Button {...props} size="sm" />', 0)!
+    expect(tag.attributes).toEqual({ size: 'sm' })
+  })
+
+  test('nomes com ponto e tag de fechamento', () => {
+    expect(readJsxTag('<Tabs.Trigger>', 0)!.name).toBe('Tabs.Trigger')
+    const close = readJsxTag('</Tabs.Trigger>', 0)!
+    expect(close.closing).toBe(true)
+  })
+
+  test('atributos em várias linhas', () => {
+    const text = '<Demo\n  name="a"\n  title="b"\n/>'
+    const tag = readJsxTag(text, 0)!
+    expect(tag.attributes).toEqual({ name: 'a', title: 'b' })
+    expect(tag.end).toBe(text.length)
+  })
+
+  test('fragment', () => {
+    expect(readJsxTag('<>', 0)).toMatchObject({ name: '', closing: false })
+  })
+
+  test('retorna null para texto que não é tag', () => {
+    expect(readJsxTag('< 3', 0)).toBeNull()
+    expect(readJsxTag('<Foo bar=baz>', 0)).toBeNull()
+    expect(readJsxTag('<Foo', 0)).toBeNull()
+  })
+})
+
+// ── findJsxElement ─────────────────────────────────────────────
+
+describe('findJsxElement', () => {
+  test('encontra fechamento com elementos aninhados', () => {
+    const text = '<Tabs>\n<Tabs.List><Tabs.Trigger /></Tabs.List>\n</Tabs>'
+    const el = findJsxElement(text, 0)!
+    expect(el.close!.start).toBe(text.lastIndexOf('</Tabs>'))
+  })
+
+  test('self-closing não tem fechamento', () => {
+    expect(findJsxElement('<Demo />', 0)!.close).toBeUndefined()
+  })
+
+  test('ignora tags dentro de code fences e code spans', () => {
+    const text = '<Tabs>\n\n```tsx\n<Tabs>\n```\n\nuse `<Tabs>` here\n\n</Tabs>'
+    const el = findJsxElement(text, 0)!
+    expect(el.close!.start).toBe(text.lastIndexOf('</Tabs>'))
+  })
+
+  test('retorna null quando não há fechamento', () => {
+    expect(findJsxElement('<Tabs>\n\ntext', 0)).toBeNull()
+  })
+})
@@ -0,0 +1,190 @@
+/**
+ * JSX - Tokenizador mínimo de tags JSX para blocos MDX
+ * Lê nome, atributos e encontra a tag de fechamento correspondente
+ */
+
+export interface JsxExpression {
+  /** Código da expressão, sem as chaves */
+  expression: string
+}
+
+/** `"texto"` vira string, `{expr}` vira JsxExpression, atributo sem valor vira `true` */
+export type JsxAttributeValue = string | boolean | JsxExpression
+
+export interface JsxTag {
+  /** Nome do elemento (`'Tabs.Trigger'`), vazio para fragments */
+  name: string
+  attributes: Record<string, JsxAttributeValue>
+  /** `</Name>` */
+  closing: boolean
+  /** `<Name />` */
+  selfClosing: boolean
+  start: number
+  /** Índice logo após o `>` */
+  end: number
+}
+
+export interface JsxElementRange {
+  open: JsxTag
+  /** Ausente quando o elemento é self-closing */
+  close?: JsxTag
+}
+
+const NAME = /[A-Za-z_$][\w$.:-]*/y
+const ATTRIBUTE_NAME = /[A-Za-z_$][\w$:.-]*/y
+const FENCE = /^ {0,3}(`{3,}|~{3,})/
+
+function skipWhitespace(text: string, i: number): number {
+  while (i < text.length && /\s/.test(text[i]!)) i++
+  return i
+}
+
+function skipString(text: string, i: number): number {
+  const quote = text[i]!
+  i++
+  while (i < text.length && text[i] !== quote) {
+    if (text[i] === '\\') i++
+    i++
+  }
+  return i + 1
+}
+
+/** Índice logo após o `}` que fecha o `{` em `i`, ou -1 */
+function skipExpression(text: string, i: number): number {
+  let depth = 0
+  while (i < text.length) {
+    const ch = text[i]!
+    if (ch === '"' || ch === "'" || ch === '`') {
+      i = skipString(text, i)
+      continue
+    }
+    if (ch === '{') depth++
+    if (ch === '}' && --depth === 0) return i + 1
+    i++
+  }
+  return -1
+}
+
+/**
+ * Lê uma tag JSX começando em `start` (que deve apontar para `<`)
+ */
+export function readJsxTag(text: string, start: number): JsxTag | null {
+  if (text[start] !== '<') return null
+  let i = start + 1
+  const closing = text[i] === '/'
+  if (closing) i++
+
+  NAME.lastIndex = i
+  const name = NAME.exec(text)?.[0] ?? ''
+  if (!name && text[i] !== '>') return null
+  i += name.length
+
+  const attributes: Record<string, JsxAttributeValue> = {}
+  while (i < text.length) {
+    i = skipWhitespace(text, i)
+    const ch = text[i]
+    if (ch === '>') {
+      return { name, attributes, closing, selfClosing: false, start, end: i + 1 }
+    }
+    if (ch === '/' && text[i + 1] === '>') {
+      return { name, attributes, closing, selfClosing: true, start, end: i + 2 }
+    }
+    if (ch === '{') {
+      // Spread ({...props}) não vira atributo nomeado
+      i = skipExpression(text, i)
+      if (i === -1) return null
+      continue
+    }
+
+    ATTRIBUTE_NAME.lastIndex = i
+    const attr = ATTRIBUTE_NAME.exec(text)?.[0]
+    if (!attr) return null
+    i = skipWhitespace(text, i + attr.length)
+
+    if (text[i] !== '=') {
+      attributes[attr] = true
+      continue
+    }
+    i = skipWhitespace(text, i + 1)
+
+    const quote = text[i]
+    if (quote === '"' || quote === "'") {
+      const end = skipString(text, i)
+      attributes[attr] = text.slice(i + 1, end - 1)
+      i = end
+    } else if (quote === '{') {
+      const end = skipExpression(text, i)
+      if (end === -1) return null
+      attributes[attr] = { expression: text.slice(i + 1, end - 1).trim() }
+      i = end
+    } else {
+      return null
+    }
+  }
+
+  return null
+}
+
+/**
+ * Encontra a tag que fecha o elemento aberto em `start`, ignorando tags
+ * dentro de code fences, code spans, expressões e comentários
+ */
+export function findJsxElement(text: string, start: number): JsxElementRange | null {
+  const open = readJsxTag(text, start)
+  if (!open || open.closing) return null
+  if (open.selfClosing) return { open }
+
+  let depth = 1
+  let i = open.end
+  while (i < text.length) {
+    const ch = text[i]!
+
+    if (text[i - 1] === '\n') {
+      const lineEnd = text.indexOf('\n', i)
+      const fence = text.slice(i, lineEnd === -1 ? undefined : lineEnd).match(FENCE)
+      if (fence) {
+        const close = new RegExp(
+          `\\n {0,3}${fence[1]![0]}{${fence[1]!.length},}[ \\t]*(?:\\n|$)`,
+          'g',
+        )
+        close.lastIndex = i
+        const match = close.exec(text)
+        if (!match) return null
+        i = match.index + match[0].length - 1
+        continue
+      }
+    }
+
+    if (ch === '`') {
+      const run = text.slice(i).match(/^`+/)![0]
+      const end = text.indexOf(run, i + run.length)
+      i = end === -1 ? i + run.length : end + run.length
+      continue
+    }
+    if (ch === '{') {
+      const end = skipExpression(text, i)
+      if (end === -1) return null
+      i = end
+      continue
+    }
+    if (text.startsWith('<!--', i)) {
+      const end = text.indexOf('-->', i)
+      if (end === -1) return null
+      i = end + 3
+      continue
+    }
+    if (ch === '<') {
+      const tag = readJsxTag(text, i)
+      if (tag) {
+        if (tag.closing) depth--
+        else if (!tag.selfClosing) depth++
+        if (depth === 0) return { open, close: tag }
+        i = tag.end
+        continue
+      }
+    }
+    i++
+  }
+
+  return null
+}
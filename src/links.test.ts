@@ -0,0 +1,109 @@
+import { test, expect, describe, beforeAll, afterAll } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseCorpus, type Corpus } from './corpus'
+import { checkLinks } from './links'
+import { parseMarkdown } from './parser'
+
+let dir: string
+let corpus: Corpus
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'mdxtractor-links-'))
+  await Bun.write(
+    join(dir, 'components/button.md'),
+    [
+      '# Button',
+      '',
+      'See [props](#props), [API](#api-refrence) and the [dialog](./dialog.md#api).',
+      '',
+      '## Props',
+      '',
+      '- [Dialog props](./dialog.md#prop)',
+      '- [Missing page](./dialogs.md)',
+      '- [Without extension](./dialog)',
+      '- [Guide](../guides/intro.md#getting-started)',
+      '- [Folder](../guides/)',
+      '- [External](https://example.com/missing.md)',
+      '',
+      '![Preview](./button.png) ![Logo](/assets/logo.svg) ![Gone](./buton.png)',
+      '',
+      '## API Reference',
+    ].join('\n'),
+  )
+  await Bun.write(join(dir, 'components/button.png'), 'png')
+  await Bun.write(join(dir, 'components/dialog.md'), '# Dialog\n\n## API\n\n## Props')
+  await Bun.write(join(dir, 'guides/intro.md'), '# Intro\n\n## Getting started')
+  await Bun.write(join(dir, 'assets/logo.svg'), '<svg />')
+  corpus = await parseCorpus(join(dir, 'components'))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+// ── Âncoras ────────────────────────────────────────────────────
+
+describe('âncoras', () => {
+  test('âncoras do próprio documento usam os slugs dos headings', async () => {
+    const doc = await parseMarkdown(
+      '# Title\n\n[ok](#title) [bad](#titel)\n\n## Configuração',
+      'x.md',
+    )
+    const broken = await checkLinks(doc)
+    expect(broken.map((b) => [b.kind, b.href, b.suggestion])).toEqual([
+      ['anchor', '#titel', '#title'],
+    ])
+    expect(broken[0]!.message).toBe('x.md:3: Anchor "#titel" not found (did you mean "#title"?)')
+    expect(broken[0]!.section.type).toBe('content')
+  })
+
+  test('âncoras codificadas e sem sugestão próxima', async () => {
+    const doc = await parseMarkdown(
+      '## Configuração\n\n[a](#configura%C3%A7%C3%A3o) [b](#xyz)',
+      'x.md',
+    )
+    const broken = await checkLinks(doc)
+    expect(broken.map((b) => b.href)).toEqual(['#xyz'])
+    expect(broken[0]!.suggestion).toBeUndefined()
+  })
+})
+
+// ── Arquivos ───────────────────────────────────────────────────
+
+describe('arquivos', () => {
+  test('verifica arquivos e âncoras de outros documentos', async () => {
+    const broken = await checkLinks(corpus.docs, { root: dir })
+    expect(broken.map((b) => [b.kind, b.href, b.suggestion])).toEqual([
+      ['anchor', '#api-refrence', '#api-reference'],
+      ['anchor', './dialog.md#prop', './dialog.md#props'],
+      ['file', './dialogs.md', './dialog.md'],
+      ['image', './buton.png', './button.png'],
+    ])
+  })
+
+  test('âncora de documento lido do disco', async () => {
+    const doc = await parseMarkdown('[a](./guides/intro.md#getting-startd)', join(dir, 'index.md'))
+    const [broken] = await checkLinks(doc)
+    expect(broken!.kind).toBe('anchor')
+    expect(broken!.suggestion).toBe('./guides/intro.md#getting-started')
+    expect(broken!.message).toContain('Anchor "#getting-startd" not found in "./guides/intro.md"')
+  })
+
+  test('arquivo inexistente mantém a âncora na sugestão', async () => {
+    const doc = await parseMarkdown('[a](./guides/intr.md#x)', join(dir, 'index.md'))
+    const [broken] = await checkLinks(doc)
+    expect(broken!.message).toBe(
+      `${join(dir, 'index.md')}:1: File not found: "./guides/intr.md" (did you mean "./guides/intro.md#x"?)`,
+    )
+  })
+
+  test('ignore pula hrefs', async () => {
+    const broken = await checkLinks(corpus.docs, {
+      root: dir,
+      ignore: ['./dialogs.md', /\.png$/],
+    })
+    expect(broken.map((b) => b.href)).toEqual(['#api-refrence', './dialog.md#prop'])
+  })
+})
@@ -0,0 +1,229 @@
+/**
+ * Links - Verifica links internos de um ou mais documentos locais
+ * Âncoras (`#props`) contra os slugs dos headings, links relativos (`./dialog.md#api`)
+ * contra os arquivos no disco, e caminhos de imagens
+ */
+
+import { readdir, stat } from 'node:fs/promises'
+import { dirname, extname, isAbsolute, join, relative, resolve } from 'node:path'
+import { decodeHref, isExternalHref } from './href'
+import { parseFile, type ParsedDoc, type Section } from './parser'
+import { editDistance } from './search'
+import { normalizeAnchor } from './slug'
+
+export type BrokenLinkKind = 'anchor' | 'file' | 'image'
+
+export interface BrokenLink {
+  /** `anchor`: heading inexistente; `file`: documento inexistente; `image`: imagem inexistente */
+  kind: BrokenLinkKind
+  href: string
+  /** Texto do link, ou `alt` da imagem */
+  text: string
+  doc: ParsedDoc
+  /** Seção onde o link aparece */
+  section: Section
+  /** href corrigido com o slug ou arquivo mais parecido, quando há um candidato próximo */
+  suggestion?: string
+  message: string
+}
+
+export interface CheckLinksOptions {
+  /** Raiz dos links absolutos (`/docs/button.md`) (padrão: diretório atual) */
+  root?: string
+  /** hrefs que não são verificados (string exata ou regex) */
+  ignore?: (string | RegExp)[]
+}
+
+const DOC_EXTENSIONS = ['.md', '.mdx']
+
+type Target = { kind: 'file' | 'directory'; path: string }
+
+/** `./a.md?x=1#b` → `{ path: './a.md', anchor: 'b' }` */
+function splitHref(href: string): { path: string; anchor?: string } {
+  const hash = href.indexOf('#')
+  const path = (hash === -1 ? href : href.slice(0, hash)).replace(/\?.*$/, '')
+  return hash === -1
+    ? { path: decodeHref(path) }
+    : { path: decodeHref(path), anchor: href.slice(hash + 1) }
+}
+
+/** Candidato mais parecido, se a distância for pequena para o tamanho do texto */
+function closest(target: string, candidates: Iterable<string>): string | undefined {
+  const max = Math.max(2, Math.floor(target.length / 3))
+  let best: string | undefined
+  let bestDistance = max + 1
+  for (const candidate of candidates) {
+    const distance = editDistance(target.toLowerCase(), candidate.toLowerCase(), max)
+    if (distance < bestDistance) {
+      best = candidate
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+/** Caminho relativo no estilo dos links (`./dialog.md`, `../guides/intro.md`) */
+function linkPath(from: string, to: string): string {
+  const path = relative(from, to).split('\\').join('/')
+  return path.startsWith('.') ? path : `./${path}`
+}
+
+/**
+ * Verifica os links de um ou mais documentos. Links externos (`https:`, `mailto:`...)
+ * são ignorados; links para documentos fora da lista são lidos do disco quando têm âncora.
+ *
+ * ```ts
+ * const broken = await checkLinks(corpus.docs)
+ * for (const link of broken) console.error(link.message)
+ * if (broken.length > 0) process.exit(1)
+ * ```
+ */
+export async function checkLinks(
+  docs: ParsedDoc | ParsedDoc[],
+  options: CheckLinksOptions = {},
+): Promise<BrokenLink[]> {
+  const list = Array.isArray(docs) ? docs : [docs]
+  const root = resolve(options.root ?? '.')
+  const ignore = options.ignore ?? []
+  const known = new Map(list.map((doc) => [resolve(doc.source), doc]))
+  const parsed = new Map<string, Promise<ParsedDoc | undefined>>()
+  const targets = new Map<string, Promise<Target | undefined>>()
+  const listings = new Map<string, Promise<string[]>>()
+
+  const kindOf = (path: string) =>
+    stat(path).then(
+      (s): Target['kind'] | undefined => (s.isDirectory() ? 'directory' : 'file'),
+      () => undefined,
+    )
+
+  // Links de docs costumam omitir a extensão (`./dialog` → `dialog.md`)
+  const findTarget = (path: string, withExtensions: boolean) => {
+    const key = `${withExtensions}:${path}`
+    let target = targets.get(key)
+    if (!target) {
+      target = (async () => {
+        const candidates = withExtensions ? [path, ...DOC_EXTENSIONS.map((e) => path + e)] : [path]
+        for (const candidate of candidates) {
+          const kind = await kindOf(candidate)
+          if (kind) return { kind, path: candidate }
+        }
+        return undefined
+      })()
+      targets.set(key, target)
+    }
+    return target
+  }
+
+  const docAt = (path: string) => {
+    const doc = known.get(path)
+    if (doc) return Promise.resolve(doc)
+    if (!DOC_EXTENSIONS.includes(extname(path))) return Promise.resolve(undefined)
+    let pending = parsed.get(path)
+    if (!pending) {
+      pending = parseFile(path).catch(() => undefined)
+      parsed.set(path, pending)
+    }
+    return pending
+  }
+
+  const entriesOf = (dir: string) => {
+    let pending = listings.get(dir)
+    if (!pending) {
+      pending = readdir(dir).catch(() => [])
+      listings.set(dir, pending)
+    }
+    return pending
+  }
+
+  const anchorSuggestion = (doc: ParsedDoc, anchor: string) =>
+    closest(
+      normalizeAnchor(anchor),
+      doc.headings.map((h) => h.slug),
+    )
+
+  /** Arquivo mais parecido: na mesma pasta do alvo, ou entre os documentos verificados */
+  const fileSuggestion = async (from: string, path: string) => {
+    const dir = dirname(path)
+    const siblings = (await entriesOf(dir)).map((name) => join(dir, name))
+    const byName = new Set([...siblings, ...known.keys()].map((c) => linkPath(from, c)))
+    return closest(linkPath(from, path), byName)
+  }
+
+  const broken: BrokenLink[] = []
+
+  for (const doc of list) {
+    const from = dirname(resolve(doc.source))
+    const found: BrokenLink[] = []
+    const report = (link: Omit<BrokenLink, 'doc' | 'message'>, problem: string) => {
+      const hint = link.suggestion ? ` (did you mean "${link.suggestion}"?)` : ''
+      found.push({
+        ...link,
+        doc,
+        message: `${doc.source}:${link.section.position.start.line}: ${problem}${hint}`,
+      })
+    }
+    const resolvePath = (path: string) =>
+      isAbsolute(path) ? join(root, path) : resolve(from, path)
+    const skip = (href: string) =>
+      !href ||
+      isExternalHref(href) ||
+      ignore.some((p) => (typeof p === 'string' ? p === href : p.test(href)))
+
+    for (const { href, text, section } of doc.links) {
+      if (skip(href)) continue
+      const { path, anchor } = splitHref(href)
+
+      let target: ParsedDoc | undefined = doc
+      if (path) {
+        const file = await findTarget(resolvePath(path), true)
+        if (!file) {
+          const suggestion = await fileSuggestion(from, resolvePath(path))
+          report(
+            {
+              kind: 'file',
+              href,
+              text,
+              section,
+              ...(suggestion
+                ? { suggestion: anchor ? `${suggestion}#${anchor}` : suggestion }
+                : {}),
+            },
+            `File not found: "${path}"`,
+          )
+          continue
+        }
+        target = file.kind === 'file' && anchor ? await docAt(file.path) : undefined
+      }
+
+      if (!target || !anchor || target.resolveAnchor(anchor)) continue
+      const slug = anchorSuggestion(target, anchor)
+      const where = path ? ` in "${path}"` : ''
+      report(
+        {
+          kind: 'anchor',
+          href,
+          text,
+          section,
+          ...(slug ? { suggestion: `${path}#${slug}` } : {}),
+        },
+        `Anchor "#${anchor}" not found${where}`,
+      )
+    }
+
+    for (const { src, alt, section } of doc.images) {
+      if (skip(src)) continue
+      const { path } = splitHref(src)
+      if (!path || (await findTarget(resolvePath(path), false))) continue
+      const suggestion = await fileSuggestion(from, resolvePath(path))
+      report(
+        { kind: 'image', href: src, text: alt, section, ...(suggestion ? { suggestion } : {}) },
+        `Image not found: "${path}"`,
+      )
+    }
+
+    found.sort((a, b) => a.section.position.start.offset - b.section.position.start.offset)
+    broken.push(...found)
+  }
+
+  return broken
+}
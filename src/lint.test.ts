@@ -0,0 +1,303 @@
+import { test, expect, describe, beforeAll, afterAll } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { formatLintResults, lintDocs, loadLintConfig, type LintRule } from './lint'
+import { parseMarkdown } from './parser'
+
+const button = `# Button
+
+## API
+
+| Prop | Type | Description |
+| --- | --- | --- |
+| \`variant\` | \`'primary' \\| 'ghost'\` | Visual style |
+| \`onClick\` | \`any\` | |
+
+## Usage
+
+\`\`\`tsx
+<Button />
+\`\`\`
+
+\`\`\`tsx title="app/page.tsx"
+<Button variant="ghost" />
+\`\`\`
+`
+
+let dir: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'mdxtractor-lint-'))
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
+const summary = (messages: { ruleId: string; position: { start: { line: number } } }[]) =>
+  messages.map((m) => [m.ruleId, m.position.start.line])
+
+// ── Regras embutidas ───────────────────────────────────────────
+
+describe('regras embutidas', () => {
+  test('recommended aponta cada problema na linha certa', async () => {
+    const [result] = await lintDocs(await parseMarkdown(button, 'button.md'), {
+      extends: 'recommended',
+    })
+    expect(summary(result!.messages)).toEqual([
+      ['no-any-prop-type', 5],
+      ['prop-description', 5],
+      ['heading-order', 10],
+      ['example-filename', 12],
+    ])
+    expect(result!.messages.map((m) => m.message)).toEqual([
+      'Prop "onClick" has type "any"; use a specific type',
+      'Prop "onClick" has no description',
+      'Heading "Usage" should come before "API"',
+      'Example in "tsx" has no filename',
+    ])
+    expect(result!.errorCount).toBe(0)
+    expect(result!.warningCount).toBe(4)
+  })
+
+  test('props-table é erro no recommended', async () => {
+    const doc = await parseMarkdown('# Card\n\n## Usage\n\nTexto', 'card.md')
+    const [result] = await lintDocs(doc, { extends: 'recommended' })
+    expect(result!.messages).toMatchObject([
+      { ruleId: 'props-table', severity: 'error', message: 'Component "Card" has no props table' },
+    ])
+    expect(result!.errorCount).toBe(1)
+  })
+
+  test('props-table verifica cada componente da doc', async () => {
+    const md =
+      '# Form\n\n| Prop | Type |\n| - | - |\n| `a` | `string` |\n\n## FormField\n\n```tsx\n<FormField />\n```'
+    const [result] = await lintDocs(await parseMarkdown(md, 'form.md'), {
+      rules: { 'props-table': 'error' },
+    })
+    expect(result!.messages.map((m) => [m.message, m.position.start.line])).toEqual([
+      ['Component "FormField" has no props table', 7],
+    ])
+  })
+
+  test('severidade, off e opções por regra', async () => {
+    const doc = await parseMarkdown(button, 'button.md')
+    const [result] = await lintDocs(doc, {
+      extends: 'recommended',
+      rules: {
+        'no-any-prop-type': 'error',
+        'prop-description': 'off',
+        'example-filename': 'off',
+        'heading-order': ['warn', { order: ['API', 'Usage'] }],
+      },
+    })
+    expect(result!.messages.map((m) => [m.ruleId, m.severity])).toEqual([
+      ['no-any-prop-type', 'error'],
+    ])
+  })
+
+  test('sem configuração nenhuma regra roda', async () => {
+    const [result] = await lintDocs(await parseMarkdown(button))
+    expect(result!.messages).toEqual([])
+  })
+
+  test('parse-diagnostics repassa os diagnósticos do parser', async () => {
+    const doc = await parseMarkdown('# A\n\n### B', 'a.md')
+    const [result] = await lintDocs(doc, { rules: { 'parse-diagnostics': 'error' } })
+    expect(result!.messages).toMatchObject([
+      {
+        ruleId: 'parse-diagnostics',
+        message: 'Heading level skips from H1 to H3: "B" (heading-level-skip)',
+      },
+    ])
+  })
+
+  test('regra desconhecida ou severidade inválida lançam erro', async () => {
+    const doc = await parseMarkdown(button)
+    await expect(lintDocs(doc, { rules: { nope: 'warn' } })).rejects.toThrow(
+      'Unknown lint rule: "nope"',
+    )
+    await expect(lintDocs(doc, { rules: { 'props-table': 'fatal' as 'error' } })).rejects.toThrow(
+      'Invalid severity for lint rule "props-table": fatal',
+    )
+  })
+})
+
+// ── Regras customizadas ────────────────────────────────────────
+
+describe('regras customizadas', () => {
+  const noTodo: LintRule = {
+    name: 'team/no-todo',
+    description: 'No TODO left in docs',
+    check({ doc, report }) {
+      for (const section of doc.sections) {
+        if (section.type === 'content' && section.text.includes('TODO')) {
+          report({ message: 'TODO left in docs', section })
+        }
+      }
+    },
+  }
+
+  test('recebem o doc, os componentes e reportam por seção', async () => {
+    const doc = await parseMarkdown('# Tabs\n\nTODO: exemplos', 'tabs.md')
+    const [result] = await lintDocs(doc, { rules: { 'team/no-todo': 'error' } }, [noTodo])
+    expect(summary(result!.messages)).toEqual([['team/no-todo', 3]])
+  })
+
+  test('regra que lança vira erro sem parar as outras', async () => {
+    const broken: LintRule = {
+      name: 'broken',
+      description: 'Always throws',
+      async check() {
+        throw new Error('boom')
+      },
+    }
+    const doc = await parseMarkdown('# Tabs\n\nTODO', 'tabs.md')
+    const [result] = await lintDocs(doc, { rules: { broken: 'warn', 'team/no-todo': 'warn' } }, [
+      broken,
+      noTodo,
+    ])
+    expect(result!.messages.map((m) => [m.ruleId, m.severity, m.message])).toEqual([
+      ['broken', 'error', 'Rule failed: boom'],
+      ['team/no-todo', 'warning', 'TODO left in docs'],
+    ])
+  })
+})
+
+// ── Configuração ───────────────────────────────────────────────
+
+describe('loadLintConfig', () => {
+  test('JSON com plugins relativos ao arquivo', async () => {
+    await Bun.write(
+      join(dir, 'rules/no-h4.ts'),
+      `export default {
+        name: 'no-h4',
+        description: 'No H4 headings',
+        check({ doc, report }) {
+          for (const h of doc.headings) if (h.level === 4) report({ message: 'H4 is not allowed', section: h })
+        },
+      }`,
+    )
+    await Bun.write(
+      join(dir, 'docs.lint.json'),
+      JSON.stringify({ plugins: ['./rules/no-h4.ts'], rules: { 'no-h4': 'error' } }),
+    )
+    const config = await loadLintConfig(join(dir, 'docs.lint.json'))
+    expect(config.plugins).toEqual([join(dir, 'rules/no-h4.ts')])
+
+    const doc = await parseMarkdown('# A\n\n## B\n\n### C\n\n#### D', 'a.md')
+    const [result] = await lintDocs(doc, config)
+    expect(summary(result!.messages)).toEqual([['no-h4', 7]])
+  })
+
+  test('módulo com export default', async () => {
+    await Bun.write(
+      join(dir, 'docs.lint.ts'),
+      `export default { extends: 'recommended', rules: { 'heading-order': 'off' } }`,
+    )
+    expect(await loadLintConfig(join(dir, 'docs.lint.ts'))).toEqual({
+      extends: 'recommended',
+      rules: { 'heading-order': 'off' },
+    })
+  })
+
+  test('plugin sem regras lança erro', async () => {
+    await Bun.write(join(dir, 'empty.ts'), 'export const nothing = 1')
+    const doc = await parseMarkdown('# A')
+    await expect(lintDocs(doc, { plugins: [join(dir, 'empty.ts')] })).rejects.toThrow(
+      'Lint plugin exports no rules',
+    )
+  })
+})
+
+// ── Formatos ───────────────────────────────────────────────────
+
+describe('formatLintResults', () => {
+  const lint = async () =>
+    lintDocs(
+      [
+        await parseMarkdown(button, 'button.md'),
+        await parseMarkdown('# Card\n\n## Usage', 'card.md'),
+      ],
+      { extends: 'recommended', rules: { 'prop-description': 'off', 'heading-order': 'off' } },
+    )
+
+  test('stylish agrupa por arquivo e resume', async () => {
+    expect(formatLintResults(await lint())).toBe(
+      [
+        'button.md',
+        '  5:1     warning  Prop "onClick" has type "any"; use a specific type  no-any-prop-type',
+        '  12:1    warning  Example in "tsx" has no filename  example-filename',
+        '',
+        'card.md',
+        '  1:1     error    Component "Card" has no props table  props-table',
+        '',
+        '✖ 3 problems (1 error, 2 warnings)',
+      ].join('\n'),
+    )
+  })
+
+  test('stylish sem problemas é vazio', async () => {
+    expect(formatLintResults(await lintDocs(await parseMarkdown('# A')))).toBe('')
+  })
+
+  test('json', async () => {
+    const results = await lint()
+    expect(JSON.parse(formatLintResults(results, 'json'))).toEqual(
+      JSON.parse(JSON.stringify(results)),
+    )
+  })
+
+  test('sarif descreve regras de plugins da configuração', async () => {
+    await Bun.write(
+      join(dir, 'rules/no-h3.ts'),
+      `export const rules = [{
+        name: 'team/no-h3',
+        description: 'No H3 headings',
+        check({ doc, report }) {
+          for (const h of doc.headings) if (h.level === 3) report({ message: 'H3', section: h })
+        },
+      }]`,
+    )
+    const doc = await parseMarkdown('# A\n\n### B', 'a.md')
+    const results = await lintDocs(doc, {
+      plugins: [join(dir, 'rules/no-h3.ts')],
+      rules: { 'team/no-h3': 'warn' },
+    })
+    const log = JSON.parse(formatLintResults(results, 'sarif'))
+    expect(log.runs[0].tool.driver.rules).toEqual([
+      { id: 'team/no-h3', shortDescription: { text: 'No H3 headings' } },
+    ])
+  })
+
+  test('sarif 2.1.0 com regras e regiões', async () => {
+    const log = JSON.parse(formatLintResults(await lint(), 'sarif'))
+    expect(log.version).toBe('2.1.0')
+    const [run] = log.runs
+    expect(run.tool.driver.name).toBe('mdxtractor')
+    expect(run.tool.driver.rules.map((r: { id: string }) => r.id)).toEqual([
+      'no-any-prop-type',
+      'example-filename',
+      'props-table',
+    ])
+    expect(run.results[2]).toEqual({
+      ruleId: 'props-table',
+      ruleIndex: 2,
+      level: 'error',
+      message: { text: 'Component "Card" has no props table' },
+      locations: [
+        {
+          physicalLocation: {
+            artifactLocation: { uri: 'card.md' },
+            region: { startLine: 1, startColumn: 1, endLine: 1, endColumn: 7 },
+          },
+        },
+      ],
+    })
+  })
+
+  test('formato desconhecido lança erro', () => {
+    expect(() => formatLintResults([], 'xml' as 'json')).toThrow('Unknown lint format: "xml"')
+  })
+})
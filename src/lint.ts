@@ -0,0 +1,390 @@
+/**
+ * Lint - Regras configuráveis para padronizar docs de componentes
+ * Regras embutidas e customizadas rodam sobre o ParsedDoc e os componentes extraídos
+ */
+
+import { dirname, isAbsolute, resolve } from 'node:path'
+import { extractComponents, type ExtractedComponent } from './extractor'
+import type { ParsedDoc, Position, Section } from './parser'
+import { DOC_START } from './scanner'
+
+export type LintSeverity = 'error' | 'warn' | 'off'
+
+/** Severidade, ou severidade com opções da regra (`['warn', { order: ['Usage', 'API'] }]`) */
+export type LintRuleSetting = LintSeverity | [LintSeverity, Record<string, unknown>]
+
+export interface LintConfig {
+  /** `'recommended'` liga as regras embutidas com a severidade padrão de cada uma */
+  extends?: 'recommended'
+  rules?: Record<string, LintRuleSetting>
+  /** Módulos com regras customizadas (`export default [rule]` ou `export const rules`) */
+  plugins?: string[]
+}
+
+export interface LintProblem {
+  message: string
+  /** Posição do problema; padrão: a da seção, senão o início do documento */
+  position?: Position
+  section?: Section
+}
+
+export interface LintContext {
+  doc: ParsedDoc
+  /** `extractComponents(doc)`, calculado uma vez por documento */
+  components: ExtractedComponent[]
+  /** Opções da regra vindas da configuração */
+  options: Record<string, unknown>
+  report(problem: LintProblem): void
+}
+
+export interface LintRule {
+  /** Identificador usado na configuração (`'props-table'`, `'my-team/no-todo'`) */
+  name: string
+  description: string
+  /** Severidade no preset `recommended` (padrão: `'warn'`) */
+  recommended?: Exclude<LintSeverity, 'off'>
+  check(context: LintContext): void | Promise<void>
+}
+
+export interface LintMessage {
+  ruleId: string
+  severity: 'error' | 'warning'
+  message: string
+  position: Position
+}
+
+export interface LintResult {
+  source: string
+  messages: LintMessage[]
+  errorCount: number
+  warningCount: number
+}
+
+const CODE_LANGS = ['tsx', 'ts', 'jsx', 'js']
+// Regras resolvidas (embutidas, de plugins e customizadas) de cada resultado do lintDocs
+const resultRules = new WeakMap<LintResult, LintRule[]>()
+const PROP_NAME = /^(?:prop|name|property)$/i
+
+/** Tabela onde a prop foi declarada, para apontar a posição */
+function propTable(doc: ParsedDoc, name: string): Section | undefined {
+  return doc.tables.find(
+    (t) =>
+      t.headers.some((h) => /^type$/i.test(h)) &&
+      t.rows.some((row) =>
+        t.headers.some(
+          (h) =>
+            PROP_NAME.test(h) && row[h]?.replace(/`/g, '').replace(/[*?]$/, '').trim() === name,
+        ),
+      ),
+  )
+}
+
+export const builtinRules: LintRule[] = [
+  {
+    name: 'props-table',
+    description: 'Every component has a props table (Prop/Name and Type columns)',
+    recommended: 'error',
+    check({ doc, components, report }) {
+      // Cada componente da doc tem a própria seção e tabela
+      for (const component of components) {
+        if (component.props.length > 0) continue
+        const heading = doc.headings.find((h) => h.slug === component.slug)
+        report({
+          message: `Component "${component.name}" has no props table`,
+          ...(heading ? { section: heading } : {}),
+        })
+      }
+    },
+  },
+  {
+    name: 'prop-description',
+    description: 'Every prop has a description',
+    check({ doc, components, report }) {
+      for (const prop of components.flatMap((c) => c.props)) {
+        if (prop.description.trim()) continue
+        const section = propTable(doc, prop.name)
+        report({
+          message: `Prop "${prop.name}" has no description`,
+          ...(section ? { section } : {}),
+        })
+      }
+    },
+  },
+  {
+    name: 'no-any-prop-type',
+    description: 'Prop types are not `any`',
+    check({ doc, components, report }) {
+      for (const prop of components.flatMap((c) => c.props)) {
+        if (!/\bany\b/.test(prop.type)) continue
+        const section = propTable(doc, prop.name)
+        report({
+          message: `Prop "${prop.name}" has type "${prop.type}"; use a specific type`,
+          ...(section ? { section } : {}),
+        })
+      }
+    },
+  },
+  {
+    name: 'example-filename',
+    description: 'Every TS/JS example has a filename (fence meta or first-line comment)',
+    check({ doc, report }) {
+      for (const block of doc.codeBlocks) {
+        if (!CODE_LANGS.includes(block.lang) || block.filename) continue
+        report({ message: `Example in "${block.lang}" has no filename`, section: block })
+      }
+    },
+  },
+  {
+    name: 'heading-order',
+    description: 'Known headings appear in the configured order (default: Usage, Examples, API)',
+    check({ doc, options, report }) {
+      const order = Array.isArray(options['order'])
+        ? options['order'].map((o) => String(o).toLowerCase())
+        : ['usage', 'examples', 'api']
+      const rank = (text: string, slug: string) =>
+        order.findIndex((name) => name === text.toLowerCase() || name === slug)
+      let last: { text: string; rank: number } | undefined
+      for (const heading of doc.headings) {
+        const current = rank(heading.text, heading.slug)
+        if (current === -1) continue
+        if (last && current < last.rank) {
+          report({
+            message: `Heading "${heading.text}" should come before "${last.text}"`,
+            section: heading,
+          })
+          continue
+        }
+        last = { text: heading.text, rank: current }
+      }
+    },
+  },
+  {
+    name: 'parse-diagnostics',
+    description: 'Structural problems found by the parser (`doc.diagnostics`)',
+    check({ doc, report }) {
+      for (const diagnostic of doc.diagnostics) {
+        if (diagnostic.severity === 'info') continue
+        report({
+          message: `${diagnostic.message} (${diagnostic.code})`,
+          position: diagnostic.position,
+        })
+      }
+    },
+  },
+]
+
+function isRule(value: unknown): value is LintRule {
+  const rule = value as LintRule
+  return typeof rule?.name === 'string' && typeof rule.check === 'function'
+}
+
+/**
+ * Lê a configuração de um arquivo JSON ou de um módulo (`export default { rules }`).
+ * Caminhos de `plugins` são resolvidos a partir do arquivo.
+ */
+export async function loadLintConfig(path: string): Promise<LintConfig> {
+  const file = resolve(path)
+  const loaded: unknown = file.endsWith('.json')
+    ? await Bun.file(file).json()
+    : ((await import(file)) as { default?: unknown }).default
+  if (!loaded || typeof loaded !== 'object') {
+    throw new Error(`Invalid lint config: ${path}`)
+  }
+  const config = loaded as LintConfig
+  const plugins = config.plugins?.map((p) =>
+    p.startsWith('.') || isAbsolute(p) ? resolve(dirname(file), p) : p,
+  )
+  return { ...config, ...(plugins ? { plugins } : {}) }
+}
+
+async function loadPlugins(plugins: string[]): Promise<LintRule[]> {
+  const rules: LintRule[] = []
+  for (const plugin of plugins) {
+    const module = (await import(plugin)) as { default?: unknown; rules?: unknown }
+    const exported = [module.default, module.rules].flat().filter(isRule)
+    if (exported.length === 0) throw new Error(`Lint plugin exports no rules: ${plugin}`)
+    rules.push(...exported)
+  }
+  return rules
+}
+
+/** Regras ativas com severidade e opções, validando nomes desconhecidos */
+function activeRules(config: LintConfig, available: LintRule[]) {
+  const byName = new Map(available.map((rule) => [rule.name, rule]))
+  const settings = new Map<string, LintRuleSetting>()
+  if (config.extends === 'recommended') {
+    for (const rule of builtinRules) settings.set(rule.name, rule.recommended ?? 'warn')
+  }
+  for (const [name, setting] of Object.entries(config.rules ?? {})) {
+    if (!byName.has(name)) throw new Error(`Unknown lint rule: "${name}"`)
+    settings.set(name, setting)
+  }
+
+  return [...settings].flatMap(([name, setting]) => {
+    const [severity, options = {}] = Array.isArray(setting) ? setting : [setting]
+    if (severity === 'off') return []
+    if (severity !== 'error' && severity !== 'warn') {
+      throw new Error(`Invalid severity for lint rule "${name}": ${String(severity)}`)
+    }
+    return [{ rule: byName.get(name)!, severity, options }]
+  })
+}
+
+/**
+ * Roda as regras ativas em cada documento. `rules` acrescenta regras customizadas
+ * às embutidas e às dos `plugins` da configuração.
+ *
+ * ```ts
+ * const results = await lintDocs(corpus.docs, await loadLintConfig('docs.lint.json'))
+ * console.log(formatLintResults(results, 'stylish'))
+ * ```
+ */
+export async function lintDocs(
+  docs: ParsedDoc | ParsedDoc[],
+  config: LintConfig = {},
+  rules: LintRule[] = [],
+): Promise<LintResult[]> {
+  const available = [...builtinRules, ...(await loadPlugins(config.plugins ?? [])), ...rules]
+  const active = activeRules(config, available)
+  const results: LintResult[] = []
+
+  for (const doc of Array.isArray(docs) ? docs : [docs]) {
+    const components = extractComponents(doc)
+    const messages: LintMessage[] = []
+
+    for (const { rule, severity, options } of active) {
+      const level = severity === 'error' ? 'error' : 'warning'
+      const report = (problem: LintProblem) => {
+        messages.push({
+          ruleId: rule.name,
+          severity: level,
+          message: problem.message,
+          position: problem.position ?? problem.section?.position ?? DOC_START,
+        })
+      }
+      try {
+        await rule.check({ doc, components, options, report })
+      } catch (error) {
+        // Uma regra quebrada não derruba as outras
+        messages.push({
+          ruleId: rule.name,
+          severity: 'error',
+          message: `Rule failed: ${(error as Error).message}`,
+          position: DOC_START,
+        })
+      }
+    }
+
+    messages.sort(
+      (a, b) =>
+        a.position.start.offset - b.position.start.offset || a.ruleId.localeCompare(b.ruleId),
+    )
+    const result: LintResult = {
+      source: doc.source,
+      messages,
+      errorCount: messages.filter((m) => m.severity === 'error').length,
+      warningCount: messages.filter((m) => m.severity === 'warning').length,
+    }
+    resultRules.set(result, available)
+    results.push(result)
+  }
+
+  return results
+}
+
+export type LintFormat = 'stylish' | 'json' | 'sarif'
+
+function stylish(results: LintResult[]): string {
+  const lines: string[] = []
+  let errors = 0
+  let warnings = 0
+  for (const result of results) {
+    if (result.messages.length === 0) continue
+    errors += result.errorCount
+    warnings += result.warningCount
+    lines.push(result.source)
+    for (const m of result.messages) {
+      const at = `${m.position.start.line}:${m.position.start.column}`
+      lines.push(`  ${at.padEnd(8)}${m.severity.padEnd(9)}${m.message}  ${m.ruleId}`)
+    }
+    lines.push('')
+  }
+  const total = errors + warnings
+  if (total === 0) return ''
+  const plural = (n: number, word: string) => `${n} ${word}${n === 1 ? '' : 's'}`
+  lines.push(
+    `\u2716 ${plural(total, 'problem')} (${plural(errors, 'error')}, ${plural(warnings, 'warning')})`,
+  )
+  return lines.join('\n')
+}
+
+function sarif(results: LintResult[], rules: LintRule[]): string {
+  const used = [...new Set(results.flatMap((r) => r.messages.map((m) => m.ruleId)))]
+  const byName = new Map(rules.map((rule) => [rule.name, rule]))
+  const log = {
+    $schema: 'https://json.schemastore.org/sarif-2.1.0.json',
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: 'mdxtractor',
+            rules: used.map((id) => ({
+              id,
+              shortDescription: { text: byName.get(id)?.description ?? id },
+            })),
+          },
+        },
+        results: results.flatMap((result) =>
+          result.messages.map((m) => ({
+            ruleId: m.ruleId,
+            ruleIndex: used.indexOf(m.ruleId),
+            level: m.severity,
+            message: { text: m.message },
+            locations: [
+              {
+                physicalLocation: {
+                  artifactLocation: { uri: result.source },
+                  region: {
+                    startLine: m.position.start.line,
+                    startColumn: m.position.start.column,
+                    endLine: m.position.end.line,
+                    endColumn: m.position.end.column,
+                  },
+                },
+              },
+            ],
+          })),
+        ),
+      },
+    ],
+  }
+  return JSON.stringify(log, null, 2)
+}
+
+/**
+ * Formata os resultados: `stylish` (texto para terminal, vazio sem problemas),
+ * `json` ou `sarif` (SARIF 2.1.0, para code scanning). O SARIF já descreve as regras
+ * que o `lintDocs` usou, inclusive as de plugins; `rules` descreve as de resultados
+ * montados de outro jeito (ex: lidos de JSON).
+ */
+export function formatLintResults(
+  results: LintResult[],
+  format: LintFormat = 'stylish',
+  rules: LintRule[] = [],
+): string {
+  switch (format) {
+    case 'stylish':
+      return stylish(results)
+    case 'json':
+      return JSON.stringify(results, null, 2)
+    case 'sarif':
+      return sarif(results, [
+        ...builtinRules,
+        ...results.flatMap((result) => resultRules.get(result) ?? []),
+        ...rules,
+      ])
+    default:
+      throw new Error(`Unknown lint format: "${String(format)}"`)
+  }
+}
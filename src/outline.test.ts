@@ -0,0 +1,118 @@
+import { test, expect, describe, beforeAll } from 'bun:test'
+import { parseMarkdown } from './parser'
+import type { ParsedDoc } from './parser'
+
+// ── Fixture ────────────────────────────────────────────────────
+
+const md = `
+- preamble
+
+# Tabs
+
+## Usage
+
+\`\`\`tsx
+<Tabs />
+\`\`\`
+
+## API
+
+### Tabs.Root
+
+| Prop | Type |
+| --- | --- |
+| value | string |
+
+### Tabs.Trigger
+
+| Prop | Type |
+| --- | --- |
+| disabled | boolean |
+
+## Props
+
+- note
+`
+
+let doc: ParsedDoc
+
+describe('outline', () => {
+  beforeAll(async () => {
+    doc = await parseMarkdown(md)
+  })
+
+  test('raiz guarda seções antes do primeiro heading', () => {
+    expect(doc.outline.heading).toBeNull()
+    expect(doc.outline.sections.map((s) => s.type)).toEqual(['list'])
+    expect(doc.outline.children).toHaveLength(1)
+  })
+
+  test('headings aninham por nível', () => {
+    const tabs = doc.outline.children[0]!
+    expect(tabs.heading!.text).toBe('Tabs')
+    expect(tabs.children.map((n) => n.heading!.text)).toEqual(['Usage', 'API', 'Props'])
+    const api = tabs.children[1]!
+    expect(api.children.map((n) => n.heading!.text)).toEqual(['Tabs.Root', 'Tabs.Trigger'])
+  })
+
+  test('seções ficam sob o heading mais próximo', () => {
+    const usage = doc.outline.children[0]!.children[0]!
+    expect(usage.sections.map((s) => s.type)).toEqual(['code'])
+  })
+
+  test('heading de nível menor fecha os anteriores', async () => {
+    const d = await parseMarkdown('### Deep\n\n## Shallow\n\n# Top')
+    expect(d.outline.children.map((n) => n.heading!.text)).toEqual(['Deep', 'Shallow', 'Top'])
+  })
+})
+
+describe('sectionUnder / sectionsUnder', () => {
+  beforeAll(async () => {
+    doc = await parseMarkdown(md)
+  })
+
+  test('encontra seção por texto do heading', () => {
+    const list = doc.sectionUnder('Props')
+    expect(list?.type).toBe('list')
+  })
+
+  test('aceita caminho com > e descendentes indiretos', () => {
+    const table = doc.sectionUnder('API > Tabs.Trigger', 'table')
+    expect(table?.rows[0]!['Prop']).toBe('disabled')
+    expect(doc.sectionUnder('Tabs > Tabs.Root', 'table')?.rows[0]!['Prop']).toBe('value')
+  })
+
+  test('aceita slug e array de segmentos', () => {
+    expect(doc.sectionUnder(['api', 'tabstrigger'], 'table')).toBeDefined()
+  })
+
+  test('sectionsUnder inclui sub-headings e o próprio heading', () => {
+    const sections = doc.sectionsUnder('API')
+    expect(sections.map((s) => s.type)).toEqual(['heading', 'heading', 'table', 'heading', 'table'])
+  })
+
+  test('caminho inexistente retorna vazio', () => {
+    expect(doc.sectionsUnder('Nope')).toEqual([])
+    expect(doc.sectionUnder('Usage > Tabs.Root')).toBeUndefined()
+  })
+})
+
+describe('breadcrumb', () => {
+  beforeAll(async () => {
+    doc = await parseMarkdown(md)
+  })
+
+  test('retorna cadeia de headings até a seção', () => {
+    const table = doc.sectionUnder('Tabs.Trigger', 'table')!
+    expect(doc.breadcrumb(table).map((h) => h.text)).toEqual(['Tabs', 'API', 'Tabs.Trigger'])
+  })
+
+  test('heading não inclui a si mesmo', () => {
+    const api = doc.headings.find((h) => h.text === 'API')!
+    expect(doc.breadcrumb(api).map((h) => h.text)).toEqual(['Tabs'])
+  })
+
+  test('seção antes de qualquer heading tem breadcrumb vazio', () => {
+    expect(doc.breadcrumb(doc.sections[0]!)).toEqual([])
+  })
+})
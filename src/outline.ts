@@ -0,0 +1,85 @@
+/**
+ * Outline - Agrupa as seções numa árvore hierárquica por headings
+ */
+
+import type { HeadingSection, Section } from './parser'
+
+export interface OutlineNode {
+  /** Heading dono do nó (`null` na raiz, que guarda o conteúdo antes do primeiro heading) */
+  heading: HeadingSection | null
+  /** Seções diretamente sob o heading, até o próximo heading */
+  sections: Section[]
+  /** Sub-headings (nível maior que o do heading) */
+  children: OutlineNode[]
+}
+
+export interface Outline {
+  root: OutlineNode
+  /** Cadeia de headings que contém cada seção, indexada por `idx` */
+  breadcrumbs: Map<number, HeadingSection[]>
+}
+
+export function buildOutline(sections: Section[]): Outline {
+  const root: OutlineNode = { heading: null, sections: [], children: [] }
+  const breadcrumbs = new Map<number, HeadingSection[]>()
+  const stack: OutlineNode[] = []
+
+  for (const section of sections) {
+    if (section.type === 'heading') {
+      while (stack.length > 0 && stack.at(-1)!.heading!.level >= section.level) stack.pop()
+    }
+    breadcrumbs.set(
+      section.idx,
+      stack.map((n) => n.heading!),
+    )
+    const parent = stack.at(-1) ?? root
+
+    if (section.type === 'heading') {
+      const node: OutlineNode = { heading: section, sections: [], children: [] }
+      parent.children.push(node)
+      stack.push(node)
+    } else {
+      parent.sections.push(section)
+    }
+  }
+
+  return { root, breadcrumbs }
+}
+
+/** Segmento de caminho casa com o texto ou o slug do heading */
+function matchesHeading(heading: HeadingSection, segment: string): boolean {
+  const query = segment.trim().toLowerCase()
+  return heading.text.toLowerCase() === query || heading.slug === query
+}
+
+/**
+ * Encontra o nó de um caminho de headings (`'API > Tabs.Trigger'`).
+ * Cada segmento deve ser descendente do anterior, sem precisar ser filho direto.
+ */
+export function findNode(root: OutlineNode, path: string | string[]): OutlineNode | undefined {
+  const segments = (Array.isArray(path) ? path : path.split('>')).filter((s) => s.trim())
+  if (segments.length === 0) return undefined
+
+  const search = (nodes: OutlineNode[], segs: string[]): OutlineNode | undefined => {
+    for (const node of nodes) {
+      if (matchesHeading(node.heading!, segs[0]!)) {
+        if (segs.length === 1) return node
+        const found = search(node.children, segs.slice(1))
+        if (found) return found
+      }
+      const found = search(node.children, segs)
+      if (found) return found
+    }
+    return undefined
+  }
+
+  return search(root.children, segments)
+}
+
+/** Todas as seções de um nó e de seus descendentes, em ordem de documento */
+export function flattenNode(node: OutlineNode): Section[] {
+  const sections: Section[] = node.heading ? [node.heading] : []
+  sections.push(...node.sections)
+  for (const child of node.children) sections.push(...flattenNode(child))
+  return sections
+}
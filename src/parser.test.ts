@@ -1,5 +1,8 @@
-import { test, expect, describe } from 'bun:test'
-import { parseMarkdown, parseFile, fetchDocs } from './parser'
+import { test, expect, describe, spyOn, beforeAll, afterAll } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { parseMarkdown, parseFile, parseStream, fetchDocs } from './parser'
 import type {
   HeadingSection,
   CodeSection,
@@ -29,6 +32,64 @@ describe('parseMarkdown', () => {
   })
 })
 
+// ── Frontmatter ────────────────────────────────────────────────
+
+describe('frontmatter', () => {
+  const md = '---\ntitle: Botão\nstatus: beta\ntags: [ui]\n---\n\n# Button\n\n## Usage'
+
+  test('expõe frontmatter no ParsedDoc', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.frontmatter).toEqual({ title: 'Botão', status: 'beta', tags: ['ui'] })
+  })
+
+  test('frontmatter.title tem prioridade sobre o H1', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.title).toBe('Botão')
+  })
+
+  test('frontmatter não vira seção', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.headings.map((h) => h.text)).toEqual(['Button', 'Usage'])
+    expect(doc.byType('content')).toHaveLength(0)
+  })
+
+  test('frontmatter vazio quando ausente', async () => {
+    const doc = await parseMarkdown('# Title')
+    expect(doc.frontmatter).toEqual({})
+  })
+
+  test('posições continuam relativas ao arquivo original', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.headings[0]!.position.start.line).toBe(7)
+  })
+
+  test('bloco --- que não é um mapa vira markdown comum com diagnóstico', async () => {
+    const doc = await parseMarkdown('---\n\nSome intro paragraph.\n\n---\n\n# Title\n', 'hr.md')
+    expect(doc.frontmatter).toEqual({})
+    expect(doc.title).toBe('Title')
+    expect(doc.sections.map((s) => [s.type, s.position.start.line])).toEqual([
+      ['content', 3],
+      ['heading', 7],
+    ])
+    expect(doc.diagnostics.map((d) => [d.code, d.severity, d.position.start.line])).toEqual([
+      ['invalid-frontmatter', 'warning', 1],
+    ])
+    expect(doc.diagnostics[0]!.message).toContain('expected a key/value map')
+  })
+
+  test('YAML inválido não lança erro, também em stream', async () => {
+    const content = '---\nfoo: [bar\n---\n# T\n'
+    const doc = await parseMarkdown(content, 'bad.md')
+    expect(doc.headings.map((h) => h.text)).toEqual(['foo: [bar', 'T'])
+    expect(doc.diagnostics.map((d) => d.code)).toEqual(['invalid-frontmatter'])
+    expect(doc.diagnostics[0]!.message).toStartWith('Invalid YAML frontmatter in bad.md')
+
+    const sections = []
+    for await (const section of parseStream(new Blob([content]), 'bad.md')) sections.push(section)
+    expect(sections).toEqual(doc.sections)
+  })
+})
+
 // ── Headings ───────────────────────────────────────────────────
 
 describe('headings', () => {
@@ -45,10 +106,41 @@ describe('headings', () => {
     expect(h.slug).toBe('hello-world')
   })
 
-  test('slug remove caracteres não-ASCII', async () => {
-    const doc = await parseMarkdown('# Meu Título Especial')
-    const h = doc.headings[0]!
-    expect(h.slug).toBe('meu-t-tulo-especial')
+  test('slug mantém letras Unicode como o GitHub', async () => {
+    const doc = await parseMarkdown('# Meu Título Especial\n\n## Configuração\n\n## 日本語')
+    expect(doc.headings.map((h) => h.slug)).toEqual([
+      'meu-título-especial',
+      'configuração',
+      '日本語',
+    ])
+  })
+
+  test('slug remove pontuação sem colapsar espaços', async () => {
+    const doc = await parseMarkdown('## Tabs.Trigger\n\n## API — Reference\n\n## `asChild` prop?')
+    expect(doc.headings.map((h) => h.slug)).toEqual([
+      'tabstrigger',
+      'api--reference',
+      'aschild-prop',
+    ])
+  })
+
+  test('headings repetidos ganham sufixo', async () => {
+    const doc = await parseMarkdown('## Example\n\n## Example\n\n## Example 1\n\n## Example')
+    expect(doc.headings.map((h) => h.slug)).toEqual([
+      'example',
+      'example-1',
+      'example-1-1',
+      'example-2',
+    ])
+  })
+
+  test('resolveAnchor encontra o heading da âncora', async () => {
+    const doc = await parseMarkdown('# Button\n\n## Props\n\n## Configuração\n\n## Props')
+    expect(doc.resolveAnchor('#props')!.idx).toBe(1)
+    expect(doc.resolveAnchor('props-1')!.idx).toBe(3)
+    expect(doc.resolveAnchor('#configura%C3%A7%C3%A3o')!.text).toBe('Configuração')
+    expect(doc.resolveAnchor('./button.md#Props')!.idx).toBe(1)
+    expect(doc.resolveAnchor('#missing')).toBeUndefined()
   })
 
   test("heading tem type 'heading' e raw correto", async () => {
@@ -76,6 +168,32 @@ describe('code blocks', () => {
     expect(doc.codeBlocks[0]!.code).toBe('const x = 1;')
   })
 
+  test('fences em itens de lista e blockquotes mantêm o info string', async () => {
+    const md = [
+      '1. Create:',
+      '',
+      '   ```tsx title="components/ui/button.tsx" {2}',
+      '   export const Button = () => null',
+      '   ```',
+      '',
+      '2. Install:',
+      '',
+      '   ```bash',
+      '   npm i',
+      '   ```',
+      '',
+      '> ```ts title="note.ts"',
+      '> const x = 1',
+      '> ```',
+    ].join('\n')
+    const doc = await parseMarkdown(md)
+    expect(doc.codeBlocks.map((c) => [c.lang, c.filename, c.meta.highlight])).toEqual([
+      ['tsx', 'components/ui/button.tsx', [2]],
+      ['bash', undefined, []],
+      ['ts', 'note.ts', []],
+    ])
+  })
+
   test('detecta filename de comentário // na primeira linha', async () => {
     const md = '```ts\n// app.ts\nconst x = 1;\n```'
     const doc = await parseMarkdown(md)
@@ -107,6 +225,52 @@ describe('code blocks', () => {
     expect(block.raw).toBe('```tsx\nconst x = 1;\n```')
   })
 
+  test('preserva linguagens com símbolos', async () => {
+    const md = '```c++\nint x;\n```\n\n```shell-session\n$ ls\n```'
+    const doc = await parseMarkdown(md)
+    expect(doc.codeBlocks.map((c) => c.lang)).toEqual(['c++', 'shell-session'])
+  })
+
+  test('expõe meta do info string', async () => {
+    const md = '```tsx title="Example" {1,3-4} showLineNumbers\nconst x = 1;\n```'
+    const doc = await parseMarkdown(md)
+    const { meta } = doc.codeBlocks[0]!
+    expect(meta.title).toBe('Example')
+    expect(meta.highlight).toEqual([1, 3, 4])
+    expect(meta.attributes).toEqual({ showLineNumbers: true })
+  })
+
+  test('filename vem do meta antes do comentário', async () => {
+    const md = '```ts filename=lib/utils.ts\n// other.ts\nconst x = 1;\n```'
+    const doc = await parseMarkdown(md)
+    expect(doc.codeBlocks[0]!.filename).toBe('lib/utils.ts')
+  })
+
+  test('title com extensão vira filename', async () => {
+    const md = '```tsx title="app/page.tsx"\nexport default function Page() {}\n```'
+    const doc = await parseMarkdown(md)
+    expect(doc.codeBlocks[0]!.filename).toBe('app/page.tsx')
+  })
+
+  test('title sem extensão não vira filename', async () => {
+    const md = '```tsx title="Basic example"\nconst x = 1;\n```'
+    const doc = await parseMarkdown(md)
+    expect(doc.codeBlocks[0]!.filename).toBeUndefined()
+  })
+
+  test('raw preserva o meta', async () => {
+    const md = '```ts {2}\nconst x = 1;\n```'
+    const doc = await parseMarkdown(md)
+    expect(doc.codeBlocks[0]!.raw).toBe(md)
+  })
+
+  test('code block aninhado em lista usa a linguagem do HTML', async () => {
+    const md = '- step\n\n  ```objective-c\n  int x;\n  ```'
+    const doc = await parseMarkdown(md)
+    expect(doc.codeBlocks[0]!.lang).toBe('objective-c')
+    expect(doc.codeBlocks[0]!.meta.raw).toBe('')
+  })
+
   test('múltiplos code blocks', async () => {
     const md = '```ts\na\n```\n\n```js\nb\n```\n\n```py\nc\n```'
     const doc = await parseMarkdown(md)
@@ -147,6 +311,30 @@ describe('tables', () => {
     expect(table.raw).toContain('| 1 | 2 |')
   })
 
+  test('guarda o alinhamento das colunas', async () => {
+    const doc = await parseMarkdown('| a | b | c | d |\n|:--|:-:|--:|---|\n| 1 | 2 | 3 | 4 |')
+    const table = doc.tables[0]!
+    expect(table.align).toEqual(['left', 'center', 'right', null])
+    expect(table.raw.split('\n')[1]).toBe('| :--- | :---: | ---: | --- |')
+  })
+
+  test('células com código e texto não se dividem', async () => {
+    const md = '| Prop | Type |\n| --- | --- |\n| `size` | `"sm" \\| "md"` or none |'
+    const doc = await parseMarkdown(md)
+    const table = doc.tables[0]!
+    expect(table.rows[0]).toEqual({ Prop: 'size', Type: '"sm" | "md" or none' })
+    expect(table.inlineRows[0]!['Type']).toEqual([
+      { type: 'code', value: '"sm" | "md"' },
+      { type: 'text', value: ' or none' },
+    ])
+  })
+
+  test('células vazias mantêm o alinhamento das colunas', async () => {
+    const md = '| A | B | C |\n| --- | --- | --- |\n| 1 | | 3 |'
+    const doc = await parseMarkdown(md)
+    expect(doc.tables[0]!.rows[0]).toEqual({ A: '1', B: '', C: '3' })
+  })
+
   test('tabela sem rows gera rows vazio', async () => {
     const md = `
 | Header1 | Header2 |
@@ -168,7 +356,8 @@ describe('lists', () => {
     const lists = doc.byType('list') as ListSection[]
     expect(lists).toHaveLength(1)
     expect(lists[0]!.ordered).toBe(false)
-    expect(lists[0]!.items).toEqual(['item a', 'item b', 'item c'])
+    expect(lists[0]!.items.map((i) => i.text)).toEqual(['item a', 'item b', 'item c'])
+    expect(lists[0]!.start).toBeUndefined()
   })
 
   test('extrai lista ordenada', async () => {
@@ -177,7 +366,56 @@ describe('lists', () => {
     const lists = doc.byType('list') as ListSection[]
     expect(lists).toHaveLength(1)
     expect(lists[0]!.ordered).toBe(true)
-    expect(lists[0]!.items).toEqual(['first', 'second', 'third'])
+    expect(lists[0]!.items.map((i) => i.text)).toEqual(['first', 'second', 'third'])
+    expect(lists[0]!.items.map((i) => i.number)).toEqual([1, 2, 3])
+  })
+
+  test('lista ordenada respeita o número inicial', async () => {
+    const doc = await parseMarkdown('3. c\n4. d')
+    const list = doc.byType('list')[0]!
+    expect(list.start).toBe(3)
+    expect(list.items.map((i) => i.number)).toEqual([3, 4])
+    expect(list.raw).toBe('3. c\n4. d')
+  })
+
+  test('listas aninhadas viram filhos do item', async () => {
+    const md = '- a\n  - a.1\n    1. deep\n  - a.2\n- b'
+    const doc = await parseMarkdown(md)
+    const lists = doc.byType('list')
+    expect(lists).toHaveLength(1)
+    const [a, b] = lists[0]!.items
+    expect(a!.text).toBe('a')
+    expect(a!.children.map((i) => i.text)).toEqual(['a.1', 'a.2'])
+    expect(a!.children[0]!.children).toEqual([
+      { text: 'deep', inline: [{ type: 'text', value: 'deep' }], number: 1, children: [] },
+    ])
+    expect(b!.children).toEqual([])
+    expect(lists[0]!.raw).toBe('- a\n  - a.1\n    1. deep\n  - a.2\n- b')
+    const ordered = await parseMarkdown('1. x\n   - y')
+    expect(ordered.byType('list')[0]!.raw).toBe('1. x\n   - y')
+  })
+
+  test('task lists registram o checkbox', async () => {
+    const doc = await parseMarkdown('- [x] done\n- [ ] todo\n  - [X] sub\n- plain')
+    const [done, todo, plain] = doc.byType('list')[0]!.items
+    expect(done!.checked).toBe(true)
+    expect(done!.text).toBe('done')
+    expect(todo!.checked).toBe(false)
+    expect(todo!.children[0]!.checked).toBe(true)
+    expect(plain!.checked).toBeUndefined()
+    expect(doc.byType('list')[0]!.raw).toBe('- [x] done\n- [ ] todo\n  - [x] sub\n- plain')
+  })
+
+  test('links de sub-itens entram em doc.links', async () => {
+    const doc = await parseMarkdown('- a\n  - [x](./x.md)')
+    expect(doc.links.map((l) => l.href)).toEqual(['./x.md'])
+  })
+
+  test('itens têm árvore inline', async () => {
+    const doc = await parseMarkdown('- see [docs](./docs.md)\n- `code`')
+    const list = doc.byType('list')[0]!
+    expect(list.items.map((i) => i.text)).toEqual(['see docs', 'code'])
+    expect(list.items[1]!.inline).toEqual([{ type: 'code', value: 'code' }])
   })
 
   test('raw reconstrói lista', async () => {
@@ -191,13 +429,49 @@ describe('lists', () => {
 // ── Content (paragraphs) ──────────────────────────────────────
 
 describe('content', () => {
-  // NOTA: o handler de <p> tem um bug — a variável `text` é local ao callback
-  // `element()` e o callback `text()` não a popula. Parágrafos nunca são capturados.
-  test('parágrafos não são capturados (bug conhecido no text handler)', async () => {
+  test('captura parágrafos', async () => {
     const md = '# Title\n\nThis is a paragraph.'
     const doc = await parseMarkdown(md)
     const contents = doc.byType('content') as ContentSection[]
-    expect(contents).toHaveLength(0)
+    expect(contents).toHaveLength(1)
+    expect(contents[0]!.text).toBe('This is a paragraph.')
+  })
+
+  test('parágrafo tem árvore inline', async () => {
+    const md = 'Use **bold**, *em*, `code` and [docs](https://x.dev "Docs") ![logo](logo.png).'
+    const doc = await parseMarkdown(md)
+    const [content] = doc.byType('content')
+    expect(content!.inline).toEqual([
+      { type: 'text', value: 'Use ' },
+      { type: 'strong', children: [{ type: 'text', value: 'bold' }] },
+      { type: 'text', value: ', ' },
+      { type: 'emphasis', children: [{ type: 'text', value: 'em' }] },
+      { type: 'text', value: ', ' },
+      { type: 'code', value: 'code' },
+      { type: 'text', value: ' and ' },
+      {
+        type: 'link',
+        href: 'https://x.dev',
+        title: 'Docs',
+        children: [{ type: 'text', value: 'docs' }],
+      },
+      { type: 'text', value: ' ' },
+      { type: 'image', src: 'logo.png', alt: 'logo' },
+      { type: 'text', value: '.' },
+    ])
+    expect(content!.text).toBe('Use bold, em, code and docs .')
+  })
+
+  test('decodifica entidades HTML no texto', async () => {
+    const doc = await parseMarkdown('# A & "B"\n\nx < y & `"z"`')
+    expect(doc.headings[0]!.text).toBe('A & "B"')
+    expect(doc.byType('content')[0]!.text).toBe('x < y & "z"')
+  })
+
+  test('parágrafos de itens de lista ficam no item', async () => {
+    const doc = await parseMarkdown('- a\n\n- b')
+    expect(doc.byType('content')).toHaveLength(0)
+    expect(doc.byType('list')[0]!.items.map((i) => i.text)).toEqual(['a', 'b'])
   })
 
   test('ignora parágrafos vazios', async () => {
@@ -210,6 +484,274 @@ describe('content', () => {
   })
 })
 
+// ── Posições ───────────────────────────────────────────────────
+
+describe('positions', () => {
+  const md =
+    '# Title\n\nIntro\n\n```ts\nconst x = 1;\n```\n\n| A | B |\n| --- | --- |\n| 1 | 2 |\n\n- a\n- b'
+
+  test('toda seção tem posição de início e fim', async () => {
+    const doc = await parseMarkdown(md)
+    for (const s of doc.sections) {
+      expect(s.position.start.line).toBeGreaterThanOrEqual(1)
+      expect(s.position.end.offset).toBeGreaterThan(s.position.start.offset)
+    }
+  })
+
+  test('heading aponta para sua linha', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.headings[0]!.position).toEqual({
+      start: { line: 1, column: 1, offset: 0, byteOffset: 0 },
+      end: { line: 1, column: 8, offset: 7, byteOffset: 7 },
+    })
+  })
+
+  test('code block cobre da fence de abertura à de fechamento', async () => {
+    const doc = await parseMarkdown(md)
+    const { start, end } = doc.codeBlocks[0]!.position
+    expect([start.line, end.line]).toEqual([5, 7])
+    expect(md.slice(start.offset, end.offset)).toBe('```ts\nconst x = 1;\n```')
+  })
+
+  test('tabela e lista apontam para as linhas originais', async () => {
+    const doc = await parseMarkdown(md)
+    const table = doc.tables[0]!
+    const list = doc.byType('list')[0]!
+    expect([table.position.start.line, table.position.end.line]).toEqual([9, 11])
+    expect([list.position.start.line, list.position.end.line]).toEqual([13, 14])
+  })
+
+  test('offset e coluna em unidades UTF-16, byteOffset em bytes UTF-8', async () => {
+    const md = '# Ação 🚀\n\nTexto'
+    const doc = await parseMarkdown(md)
+    const { start, end } = doc.headings[0]!.position
+    expect(end).toEqual({ line: 1, column: 10, offset: 9, byteOffset: 13 })
+    expect(doc.content.slice(start.offset, end.offset)).toBe('# Ação 🚀')
+    const bytes = Buffer.from(md)
+    expect(bytes.subarray(start.byteOffset, end.byteOffset).toString()).toBe('# Ação 🚀')
+    expect(doc.byType('content')[0]!.position.start).toMatchObject({ offset: 11, byteOffset: 15 })
+  })
+})
+
+// ── MDX ────────────────────────────────────────────────────────
+
+describe('mdx', () => {
+  const mdx = `import { Button } from "@/components/ui/button"
+
+# Button
+
+<ComponentPreview name="button-demo" align="center" />
+
+<Tabs defaultValue="cli">
+<TabsContent value="cli">
+
+\`\`\`bash
+npx shadcn add button
+\`\`\`
+
+</TabsContent>
+</Tabs>
+`
+
+  test('statements ESM viram seções esm', async () => {
+    const doc = await parseMarkdown(mdx, 'button.mdx')
+    const esm = doc.byType('esm')
+    expect(esm).toHaveLength(1)
+    expect(esm[0]!.kind).toBe('import')
+    expect(esm[0]!.code).toBe('import { Button } from "@/components/ui/button"')
+  })
+
+  test('elementos JSX viram seções jsx com atributos', async () => {
+    const doc = await parseMarkdown(mdx, 'button.mdx')
+    const jsx = doc.byType('jsx')
+    expect(jsx.map((j) => j.name)).toEqual(['ComponentPreview', 'Tabs', 'TabsContent'])
+    expect(jsx[0]!.attributes).toEqual({ name: 'button-demo', align: 'center' })
+    expect(jsx[0]!.selfClosing).toBe(true)
+  })
+
+  test('markdown dentro de JSX continua sendo parseado', async () => {
+    const doc = await parseMarkdown(mdx, 'button.mdx')
+    expect(doc.codeBlocks).toHaveLength(1)
+    expect(doc.codeBlocks[0]!.code).toBe('npx shadcn add button')
+    const types = doc.sections.map((s) => s.type)
+    expect(types).toEqual(['esm', 'heading', 'jsx', 'jsx', 'jsx', 'code'])
+  })
+
+  test('content guarda o código entre as tags', async () => {
+    const doc = await parseMarkdown(mdx, 'button.mdx')
+    const tabs = doc.byType('jsx')[1]!
+    expect(tabs.content.startsWith('<TabsContent value="cli">')).toBe(true)
+    expect(tabs.content.endsWith('</TabsContent>')).toBe(true)
+  })
+
+  test('modo mdx pode ser forçado por opção', async () => {
+    const doc = await parseMarkdown(mdx, 'button.md', { mdx: true })
+    expect(doc.byType('esm')).toHaveLength(1)
+    const plain = await parseMarkdown(mdx, 'button.md')
+    expect(plain.byType('esm')).toHaveLength(0)
+    expect(plain.byType('jsx')).toHaveLength(0)
+  })
+})
+
+// ── Callouts ───────────────────────────────────────────────────
+
+describe('callouts', () => {
+  test('alerta do GitHub vira callout com o conteúdo como filhos', async () => {
+    const md = '> [!WARNING]\n> Be **careful**.\n>\n> Second paragraph.'
+    const doc = await parseMarkdown(md)
+    const [callout] = doc.byType('callout')
+    expect(callout!.kind).toBe('warning')
+    expect(callout!.title).toBe('Warning')
+    expect(callout!.children.map((s) => s.type === 'content' && s.text)).toEqual([
+      'Be careful.',
+      'Second paragraph.',
+    ])
+    expect(doc.sections.map((s) => s.type)).toEqual(['callout', 'content', 'content'])
+    expect(doc.sections.map((s) => s.idx)).toEqual([0, 1, 2])
+    expect(callout!.raw).toBe('> [!WARNING]\n> Be careful.\n>\n> Second paragraph.')
+  })
+
+  test('título na linha do marcador', async () => {
+    const doc = await parseMarkdown('> [!NOTE] Before you start\n> Install the CLI.')
+    const [callout] = doc.byType('callout')
+    expect(callout!.title).toBe('Before you start')
+    expect(callout!.children).toHaveLength(1)
+  })
+
+  test('estilo antigo com negrito e rótulos custom', async () => {
+    const doc = await parseMarkdown('> **Note**\n> text\n\n> [!DEPRECATED]\n> Use Link.')
+    const callouts = doc.byType('callout')
+    expect(callouts.map((c) => [c.kind, c.label])).toEqual([
+      ['note', 'note'],
+      ['custom', 'deprecated'],
+    ])
+    expect(callouts[1]!.title).toBe('Deprecated')
+  })
+
+  test('blockquote comum continua como conteúdo', async () => {
+    const doc = await parseMarkdown('> just a quote')
+    expect(doc.byType('callout')).toHaveLength(0)
+    expect(doc.byType('content')[0]!.text).toBe('just a quote')
+  })
+
+  test('container `:::` com título, código e callout aninhado', async () => {
+    const md = [
+      '# Usage',
+      '',
+      '::::tip Pro tip',
+      'Use `asChild`.',
+      '',
+      '```tsx',
+      '<Button asChild />',
+      '```',
+      '',
+      ':::danger[Careful]',
+      'inner',
+      ':::',
+      '::::',
+      '',
+      'after',
+    ].join('\n')
+    const doc = await parseMarkdown(md)
+    const [outer, inner] = doc.byType('callout')
+    expect(outer!.title).toBe('Pro tip')
+    expect(outer!.children.map((s) => s.type)).toEqual(['content', 'code', 'callout'])
+    expect(outer!.position.start.line).toBe(3)
+    expect(inner!.kind).toBe('caution')
+    expect(inner!.title).toBe('Careful')
+    expect(inner!.children.map((s) => s.raw)).toEqual(['inner'])
+    expect(doc.breadcrumb(inner!).map((h) => h.text)).toEqual(['Usage'])
+    expect(doc.byType('content').at(-1)!.text).toBe('after')
+  })
+
+  test('container com quebras de linha CRLF', async () => {
+    const doc = await parseMarkdown(
+      ':::tip\r\nHello\r\n:::\r\n\r\n:::note Heads up\r\nx\r\n:::\r\n',
+    )
+    expect(doc.byType('callout').map((c) => [c.kind, c.title, c.children.length])).toEqual([
+      ['tip', 'Tip', 1],
+      ['note', 'Heads up', 1],
+    ])
+  })
+
+  test('callout dentro de item de lista', async () => {
+    const doc = await parseMarkdown('- item\n\n  > [!TIP]\n  > in list')
+    const [callout] = doc.byType('callout')
+    expect(callout!.kind).toBe('tip')
+    expect(callout!.children.map((s) => s.raw)).toEqual(['in list'])
+    expect(doc.byType('list')[0]!.items[0]!.text).toBe('item')
+  })
+})
+
+// ── Links ──────────────────────────────────────────────────────
+
+describe('links', () => {
+  test('coleta links de parágrafos, listas e tabelas', async () => {
+    const md = [
+      'Read the [guide](./guide.md).',
+      '',
+      '- [API](#api "API reference")',
+      '',
+      '| Prop | Type |',
+      '| --- | --- |',
+      '| as | [Slot](https://radix-ui.com/slot) |',
+    ].join('\n')
+    const doc = await parseMarkdown(md)
+    expect(doc.links.map(({ href, text, title }) => ({ href, text, title }))).toEqual([
+      { href: './guide.md', text: 'guide', title: undefined },
+      { href: '#api', text: 'API', title: 'API reference' },
+      { href: 'https://radix-ui.com/slot', text: 'Slot', title: undefined },
+    ])
+    expect(doc.links.map((l) => l.section.type)).toEqual(['content', 'list', 'table'])
+  })
+
+  test('links de referência, com título na linha seguinte', async () => {
+    const doc = await parseMarkdown(
+      'See [docs][id] and [Other].\n\n- [ID]\n\n[id]: https://x.com\n  "Title"\n[other]: /o\n',
+    )
+    expect(doc.links.map(({ href, text, title }) => ({ href, text, title }))).toEqual([
+      { href: 'https://x.com', text: 'docs', title: 'Title' },
+      { href: '/o', text: 'Other', title: undefined },
+      { href: 'https://x.com', text: 'ID', title: 'Title' },
+    ])
+    expect(doc.sections.map((s) => s.type)).toEqual(['content', 'list'])
+  })
+
+  test('cada bloco é renderizado só com as definições que referencia', async () => {
+    const count = 50
+    const paragraphs = Array.from({ length: count }, (_, i) => `Para [link ${i}].`)
+    const definitions = Array.from({ length: count }, (_, i) => `[link ${i}]: /${i}`)
+    const render = spyOn(Bun.markdown, 'html')
+    try {
+      const doc = await parseMarkdown([...paragraphs, ...definitions].join('\n\n'))
+      const rendered = render.mock.calls.map(([md]) => String(md))
+      expect(rendered.filter((md) => md.startsWith('Para'))).toHaveLength(count)
+      for (const md of rendered) expect(md.match(/^\[link \d+\]:/gm)?.length ?? 0).toBeLessThan(2)
+      expect(doc.links).toHaveLength(count)
+    } finally {
+      render.mockRestore()
+    }
+  })
+
+  test('links dentro de ênfase e com entidades', async () => {
+    const doc = await parseMarkdown('**[a & b](./x?a=1&b=2)**')
+    expect(doc.links[0]!.href).toBe('./x?a=1&b=2')
+    expect(doc.links[0]!.text).toBe('a & b')
+  })
+
+  test('coleta imagens, inclusive em parágrafos só com imagem', async () => {
+    const doc = await parseMarkdown(
+      '![Logo](./logo.svg "Marca")\n\n[![Badge](./badge.svg)](https://ci)',
+    )
+    expect(doc.images.map(({ src, alt, title }) => ({ src, alt, title }))).toEqual([
+      { src: './logo.svg', alt: 'Logo', title: 'Marca' },
+      { src: './badge.svg', alt: 'Badge', title: undefined },
+    ])
+    expect(doc.byType('content').map((s) => s.text)).toEqual(['', ''])
+    expect(doc.links.map((l) => l.href)).toEqual(['https://ci'])
+  })
+})
+
 // ── Query helpers ──────────────────────────────────────────────
 
 describe('query helpers', () => {
@@ -267,6 +809,13 @@ Some text about styling.
     const doc = await parseMarkdown(md)
     expect(doc.search('xyzzy_nonexistent')).toHaveLength(0)
   })
+
+  test('search devolve resultados ranqueados com a seção', async () => {
+    const doc = await parseMarkdown(md)
+    const [first] = doc.search('component')
+    expect(first!.score).toBeGreaterThan(0)
+    expect(first!.section).toBe(doc.sections[first!.idx])
+  })
 })
 
 // ── Documento complexo ────────────────────────────────────────
@@ -349,6 +898,37 @@ export default function App() {
 
 // ── parseFile ──────────────────────────────────────────────────
 
+const fixture = [
+  '# Guide',
+  '',
+  'Intro with a [link](./a.md).',
+  '',
+  '## Install',
+  '',
+  '```bash',
+  'npm i x',
+  '```',
+  '',
+  '| Prop | Type |',
+  '| --- | --- |',
+  '| size | string |',
+  '',
+  '- a',
+  '- b',
+].join('\n')
+let dir: string
+let fixturePath: string
+
+beforeAll(async () => {
+  dir = await mkdtemp(join(tmpdir(), 'mdxtractor-parser-'))
+  fixturePath = join(dir, 'guide.md')
+  await Bun.write(fixturePath, fixture)
+})
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true })
+})
+
 describe('parseFile', () => {
   test('lê e parseia arquivo local', async () => {
     const doc = await parseFile('README.md')
@@ -358,6 +938,117 @@ describe('parseFile', () => {
 
   test('lança erro para arquivo inexistente', async () => {
     expect(parseFile('nonexistent.md')).rejects.toThrow('File not found')
+    expect(parseFile('nonexistent.md', { stream: true })).rejects.toThrow('File not found')
+  })
+
+  test('modo stream monta o mesmo documento', async () => {
+    const full = await parseFile(fixturePath)
+    const streamed = await parseFile(fixturePath, { stream: true })
+    expect(streamed.content).toBe(fixture)
+    expect(streamed.title).toBe(full.title)
+    expect(streamed.sections.map((s) => [s.idx, s.type, s.raw, s.position])).toEqual(
+      full.sections.map((s) => [s.idx, s.type, s.raw, s.position]),
+    )
+    expect(streamed.breadcrumb(streamed.codeBlocks[0]!)).toEqual(
+      full.breadcrumb(full.codeBlocks[0]!),
+    )
+  })
+})
+
+// ── parseStream ────────────────────────────────────────────────
+
+/** Stream que entrega o texto em pedaços de `size` caracteres */
+function chunked(text: string, size: number): ReadableStream<string> {
+  let i = 0
+  return new ReadableStream({
+    pull(controller) {
+      if (i >= text.length) return controller.close()
+      controller.enqueue(text.slice(i, (i += size)))
+    },
+  })
+}
+
+async function collect<T>(sections: AsyncIterable<T>): Promise<T[]> {
+  const all: T[] = []
+  for await (const section of sections) all.push(section)
+  return all
+}
+
+describe('parseStream', () => {
+  const md = [
+    '---',
+    'title: Button',
+    '---',
+    '',
+    '# Button',
+    '',
+    '> [!WARNING]',
+    '> Careful.',
+    '',
+    ':::tip Title',
+    'inside',
+    ':::',
+    '',
+    'para',
+    '#hashtag',
+    '',
+    '- a',
+    '',
+    '  continued',
+    '- b',
+    '',
+    '| Prop | Type |',
+    '| --- | --- |',
+    '| size | string |',
+    '',
+    '```ts',
+    'const x = 1',
+    '```',
+  ].join('\n')
+
+  test('gera as mesmas seções do parseMarkdown em qualquer tamanho de pedaço', async () => {
+    const expected = (await parseMarkdown(md)).sections
+    for (const size of [1, 5, 64, md.length]) {
+      expect(await collect(parseStream(chunked(md, size)))).toEqual(expected)
+    }
+  })
+
+  test('aceita bytes e Bun.file', async () => {
+    const bytes = new Blob([md]).stream()
+    expect(await collect(parseStream(bytes))).toHaveLength((await parseMarkdown(md)).total)
+    const first = await parseStream(Bun.file(fixturePath)).next()
+    expect(first.value).toMatchObject({ type: 'heading', text: 'Guide' })
+  })
+
+  test('parar cedo cancela o stream', async () => {
+    let cancelled = false
+    let pulls = 0
+    const stream = new ReadableStream<string>({
+      pull(controller) {
+        pulls++
+        controller.enqueue(`## Section ${pulls}\n\n| Prop | Type |\n| --- | --- |\n| a | b |\n\n`)
+      },
+      cancel() {
+        cancelled = true
+      },
+    })
+    for await (const section of parseStream(stream)) {
+      if (section.type === 'table') break
+    }
+    expect(cancelled).toBe(true)
+    expect(pulls).toBeLessThan(5)
+  })
+
+  test('usa mdx pela extensão do source', async () => {
+    const sections = await collect(
+      parseStream(chunked('import x from "y"\n\n<Demo />', 3), 'a.mdx'),
+    )
+    expect(sections.map((s) => s.type)).toEqual(['esm', 'jsx'])
+  })
+
+  test('definições de link só valem para os blocos seguintes', async () => {
+    const sections = await collect(parseStream(chunked('[a]\n\n[a]: /x\n\n[a]', 4)))
+    expect(sections.map((s) => (s.type === 'content' ? s.text : s.type))).toEqual(['[a]', 'a'])
   })
 })
 
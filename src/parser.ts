@@ -3,12 +3,114 @@
  * 100% Bun - usa Bun.markdown + HTMLRewriter
  */
 
-export type SectionType = 'heading' | 'code' | 'table' | 'content' | 'list'
+import {
+  calloutKind,
+  calloutTitle,
+  parseContainerInfo,
+  readCalloutMarker,
+  type CalloutKind,
+  type CalloutMarker,
+} from './callout'
+import { addDiagnostic, collectDiagnostics, type Diagnostic } from './diagnostics'
+import { fetchText, type FetchOptions } from './fetch'
+import { nestedFences, parseCodeMeta, parseFenceInfo, type CodeMeta, type FenceInfo } from './fence'
+import { parseFrontmatter, type Frontmatter } from './frontmatter'
+import { isExternalHref } from './href'
+import {
+  createInlineBuilder,
+  decodeEntities,
+  inlineImages,
+  inlineLinks,
+  inlineText,
+  type InlineNode,
+} from './inline'
+import { buildOutline, findNode, flattenNode, type OutlineNode } from './outline'
+import { findJsxElement, type JsxAttributeValue } from './jsx'
+import { applyTransforms, type ParserPlugin, type SectionInit } from './plugins'
+import {
+  DOC_START,
+  flattenBlocks,
+  scanBlocks,
+  scanStream,
+  type Block,
+  type Position,
+} from './scanner'
+import { restoreDoc, serializeDoc, type SerializedDoc } from './serialize'
+import {
+  createSearchIndex,
+  type SearchIndex,
+  type SearchOptions,
+  type SearchResult,
+} from './search'
+import { createSlugger, normalizeAnchor, type Slugger } from './slug'
 
-interface BaseSection {
+export type { CalloutKind } from './callout'
+export type { Diagnostic, DiagnosticSeverity } from './diagnostics'
+export type { CodeMeta } from './fence'
+export { normalizeDocsUrl, type FetchOptions } from './fetch'
+export type { Frontmatter } from './frontmatter'
+export type {
+  InlineCode,
+  InlineEmphasis,
+  InlineImage,
+  InlineLink,
+  InlineNode,
+  InlineStrong,
+  InlineText,
+} from './inline'
+export type { JsxAttributeValue, JsxExpression } from './jsx'
+export type { OutlineNode } from './outline'
+export type {
+  ParserPlugin,
+  PluginHandler,
+  PluginRenderContext,
+  SectionInit,
+  TransformContext,
+} from './plugins'
+export type { Point, Position } from './scanner'
+export {
+  hydrateComponents,
+  serializeComponents,
+  SERIALIZED_VERSION,
+  type SerializedCallout,
+  type SerializedComponents,
+  type SerializedDiagnostic,
+  type SerializedDoc,
+  type SerializedSection,
+} from './serialize'
+export { slugify } from './slug'
+
+export type SectionType =
+  | 'heading'
+  | 'code'
+  | 'table'
+  | 'content'
+  | 'list'
+  | 'esm'
+  | 'jsx'
+  | 'callout'
+  | Extract<keyof CustomSections, string>
+
+/**
+ * Seções criadas por plugins, por tipo. Cada entrada deve estender `BaseSection`
+ * com `type` igual à chave:
+ *
+ * ```ts
+ * declare module 'mdxtractor' {
+ *   interface CustomSections {
+ *     'props-table': PropsTableSection
+ *   }
+ * }
+ * ```
+ */
+export interface CustomSections {}
+
+export interface BaseSection {
   idx: number
   type: SectionType
   raw: string
+  /** Posição no texto original (seções aninhadas herdam a do bloco que as contém) */
+  position: Position
 }
 
 export interface HeadingSection extends BaseSection {
@@ -22,64 +124,421 @@ export interface CodeSection extends BaseSection {
   type: 'code'
   lang: string
   code: string
+  /** Do meta (`filename=`, `title="app/page.tsx"`), senão de um comentário na primeira linha */
   filename?: string
+  /** Info string após a linguagem (title, linhas destacadas, flags) */
+  meta: CodeMeta
 }
 
+/** Alinhamento da coluna na linha delimitadora (`:--`, `:-:`, `--:`) */
+export type TableAlign = 'left' | 'center' | 'right' | null
+
 export interface TableSection extends BaseSection {
   type: 'table'
   headers: string[]
+  align: TableAlign[]
   rows: Record<string, string>[]
+  /** Mesmas células de `rows`, como árvore inline */
+  inlineRows: Record<string, InlineNode[]>[]
+}
+
+export interface ListItem {
+  text: string
+  inline: InlineNode[]
+  /** Estado do checkbox em task lists (`- [x]` / `- [ ]`); ausente nos demais itens */
+  checked?: boolean
+  /** Número do item em listas ordenadas (considera o `start`) */
+  number?: number
+  /** Itens das listas aninhadas dentro deste item */
+  children: ListItem[]
 }
 
 export interface ListSection extends BaseSection {
   type: 'list'
   ordered: boolean
-  items: string[]
+  /** Número inicial de listas ordenadas */
+  start?: number
+  items: ListItem[]
 }
 
 export interface ContentSection extends BaseSection {
   type: 'content'
   text: string
+  inline: InlineNode[]
+}
+
+/** Statement ESM de topo do MDX (`import` / `export`) */
+export interface EsmSection extends BaseSection {
+  type: 'esm'
+  kind: 'import' | 'export'
+  code: string
+}
+
+/** Elemento JSX em bloco do MDX (`<ComponentPreview name="demo" />`, `<Tabs>…</Tabs>`) */
+export interface JsxSection extends BaseSection {
+  type: 'jsx'
+  /** Nome do componente (`'Tabs.Trigger'`), vazio para fragments */
+  name: string
+  attributes: Record<string, JsxAttributeValue>
+  selfClosing: boolean
+  /** Código entre as tags de abertura e fechamento (markdown filho também vira seção) */
+  content: string
+}
+
+/** Aviso em blockquote (`> [!WARNING]`, `> **Note**`) ou container (`:::tip`) */
+export interface CalloutSection extends BaseSection {
+  type: 'callout'
+  kind: CalloutKind
+  /** Rótulo original em minúsculas (`'warning'`, `'deprecated'`, `'info'`...) */
+  label: string
+  /** Título explícito, senão o rótulo capitalizado (`'Warning'`) */
+  title: string
+  /** Seções diretamente dentro do callout (também presentes em `doc.sections`) */
+  children: Section[]
+}
+
+export type Section =
+  | HeadingSection
+  | CodeSection
+  | TableSection
+  | ListSection
+  | ContentSection
+  | EsmSection
+  | JsxSection
+  | CalloutSection
+  | CustomSections[keyof CustomSections]
+
+/** Link encontrado em parágrafos, itens de lista ou células de tabela */
+export interface DocLink {
+  href: string
+  title?: string
+  text: string
+  /** Seção onde o link aparece */
+  section: Section
+}
+
+export interface DocImage {
+  src: string
+  alt: string
+  title?: string
+  /** Seção onde a imagem aparece */
+  section: Section
+}
+
+export interface ParseOptions {
+  /** Trata o conteúdo como MDX (ESM, JSX, sem código indentado). Padrão: `source` termina em `.mdx` */
+  mdx?: boolean
+  /** Resolve links e imagens relativos contra esta URL (`./dialog.md` → `https://…/dialog.md`) */
+  baseUrl?: string
+  /** Handlers e transformações extras (seletores próprios, tipos de seção customizados) */
+  plugins?: ParserPlugin[]
+}
+
+export interface FetchDocsOptions extends ParseOptions, FetchOptions {}
+
+export interface ParseFileOptions extends ParseOptions {
+  /**
+   * Lê o arquivo em partes e parseia bloco a bloco, sem renderizar o texto inteiro de
+   * uma vez; o texto completo ainda fica em `doc.content`, base das posições
+   */
+  stream?: boolean
 }
 
-export type Section = HeadingSection | CodeSection | TableSection | ListSection | ContentSection
+/** Fonte de `parseStream`: stream de bytes/texto ou `Blob` (ex: `Bun.file()`) */
+export type MarkdownInput = ReadableStream<Uint8Array | string> | Blob
 
 export interface ParsedDoc {
   source: string
+  /** Markdown original, base das posições e do `stringifyDoc` */
+  content: string
+  /** `frontmatter.title`, senão o texto do primeiro H1, senão `source` */
   title: string
+  /** Metadados do frontmatter YAML/TOML (`{}` quando ausente) */
+  frontmatter: Frontmatter
   sections: Section[]
   headings: HeadingSection[]
   codeBlocks: CodeSection[]
   tables: TableSection[]
+  links: DocLink[]
+  images: DocImage[]
+  /** Árvore de seções agrupadas por heading */
+  outline: OutlineNode
   total: number
   byType: <T extends SectionType>(type: T) => Extract<Section, { type: T }>[]
   byLang: (lang: string) => CodeSection[]
-  search: (query: string) => Section[]
+  /** Busca ranqueada (BM25) nas seções, com prefixo, fuzzy e filtros; ver `createSearchIndex` */
+  search: (query: string, options?: SearchOptions) => SearchResult[]
+  /** Todas as seções sob um caminho de headings (`'API > Tabs.Trigger'`), incluindo o heading */
+  sectionsUnder: (path: string | string[]) => Section[]
+  /** Primeira seção sob um caminho de headings, opcionalmente filtrada por tipo */
+  sectionUnder: {
+    (path: string | string[]): Section | undefined
+    <T extends SectionType>(
+      path: string | string[],
+      type: T,
+    ): Extract<Section, { type: T }> | undefined
+  }
+  /** Headings que contêm a seção, do mais externo ao mais interno */
+  breadcrumb: (section: Section) => HeadingSection[]
+  /** Heading de uma âncora (`'#props'`, `'#configura%C3%A7%C3%A3o'`) */
+  resolveAnchor: (anchor: string) => HeadingSection | undefined
+  /** Problemas estruturais (H1 ausente, tabelas irregulares...), em ordem de posição */
+  diagnostics: Diagnostic[]
+  /** Adiciona um diagnóstico de quem consome o doc (ex: `extractComponents`), sem repetir */
+  report: (diagnostic: Diagnostic) => void
+  /** Formato JSON versionado (`JSON.stringify(doc)`); `hydrateDoc` reconstrói o doc */
+  toJSON: () => SerializedDoc
+}
+
+/** `filename=` / `file=` do meta, ou `title` quando parece um caminho de arquivo */
+function metaFilename(meta: CodeMeta): string | undefined {
+  const attr = meta.attributes['filename'] ?? meta.attributes['file']
+  if (typeof attr === 'string' && attr) return attr
+  if (meta.title && /\.\w+$/.test(meta.title)) return meta.title
+  return undefined
+}
+
+const BLOCK_MARKER = /^mdxtractor:block:(\d+)$/
+
+/**
+ * Renderiza cada bloco separadamente, precedido de um comentário marcador,
+ * para que o HTMLRewriter saiba de qual bloco (e posição) cada seção veio
+ */
+function renderBlocks(blocks: Block[], definitions: Definitions, mdx: boolean): string {
+  return blocks
+    .map((block, i) => {
+      const marker = `<!--mdxtractor:block:${i}-->\n`
+      if (['frontmatter', 'esm', 'jsx', 'container'].includes(block.kind)) return marker
+      const linkable = !['code', 'html', 'thematicBreak', 'definition'].includes(block.kind)
+      const used = linkable ? referencedDefinitions(block.raw, definitions) : ''
+      const md = used ? `${block.raw}\n\n${used}` : block.raw
+      return marker + Bun.markdown.html(md, { noIndentedCodeBlocks: mdx })
+    })
+    .join('')
+}
+
+/** Seção de um bloco ESM/JSX, que não passa pelo Bun.markdown */
+function mdxSection(block: Block, idx: number): EsmSection | JsxSection | null {
+  if (block.kind === 'esm') {
+    return {
+      idx,
+      type: 'esm',
+      kind: block.raw.startsWith('import') ? 'import' : 'export',
+      code: block.raw,
+      raw: block.raw,
+      position: block.position,
+    }
+  }
+
+  const element = findJsxElement(block.raw, block.raw.length - block.raw.trimStart().length)
+  if (!element) return null
+  const { open, close } = element
+  return {
+    idx,
+    type: 'jsx',
+    name: open.name,
+    attributes: open.attributes,
+    selfClosing: open.selfClosing,
+    content: close ? block.raw.slice(open.end, close.start).replace(/^\n|\n$/g, '') : '',
+    raw: block.raw,
+    position: block.position,
+  }
 }
 
-function slugify(text: string): string {
-  return text
-    .toLowerCase()
-    .replace(/[^a-z0-9]+/g, '-')
-    .replace(/^-|-$/g, '')
+/** Definições de link do documento, pelo rótulo normalizado */
+type Definitions = Map<string, string>
+
+const DEFINITION_LABEL = /^ {0,3}\[((?:[^\]\\]|\\.)+)\]:/
+const REFERENCE_LABEL = /\[((?:[^[\]\\]|\\.)+)\]/g
+
+/** Rótulos casam sem diferenciar caixa e com espaços colapsados (CommonMark) */
+function normalizeLabel(label: string): string {
+  return label.trim().replace(/\s+/g, ' ').toLowerCase()
 }
 
-export async function parseMarkdown(content: string, source = 'unknown'): Promise<ParsedDoc> {
-  const html = Bun.markdown.html(content)
+/**
+ * Acrescenta a `definitions` as definições de link (`[id]: url`) dos blocos, que
+ * valem para o documento inteiro; a primeira de cada rótulo vence
+ */
+function linkDefinitions(blocks: Block[], definitions: Definitions = new Map()): Definitions {
+  for (const block of blocks) {
+    if (block.kind !== 'definition') continue
+    const label = block.raw.match(DEFINITION_LABEL)?.[1]
+    if (label && !definitions.has(normalizeLabel(label))) {
+      definitions.set(normalizeLabel(label), block.raw)
+    }
+  }
+  return definitions
+}
+
+/** Só as definições que o bloco referencia, para renderizar cada bloco sozinho */
+function referencedDefinitions(raw: string, definitions: Definitions): string {
+  if (definitions.size === 0) return ''
+  const used = new Set<string>()
+  for (const match of raw.matchAll(REFERENCE_LABEL)) {
+    const definition = definitions.get(normalizeLabel(match[1]!))
+    if (definition) used.add(definition)
+  }
+  return [...used].join('\n')
+}
+
+export async function parseMarkdown(
+  content: string,
+  source = 'unknown',
+  options: ParseOptions = {},
+): Promise<ParsedDoc> {
+  const mdx = options.mdx ?? /\.mdx$/i.test(source)
+  const { blocks, frontmatter, diagnostic } = readFrontmatter(
+    flattenBlocks(scanBlocks(content, { mdx })),
+    source,
+    mdx,
+  )
+  const plugins = options.plugins ?? []
+  const rendered = await renderSections(blocks, 0, {
+    source,
+    mdx,
+    definitions: linkDefinitions(blocks),
+    slugger: createSlugger(),
+    baseUrl: options.baseUrl,
+    plugins,
+  })
+  const sections = await applyTransforms(rendered, plugins, { source, frontmatter })
+  const doc = buildDoc(source, content, frontmatter, sections)
+  if (diagnostic) doc.report(diagnostic)
+  return doc
+}
+
+/**
+ * Lê o bloco de frontmatter. Um bloco `---` que não é um mapa YAML/TOML válido (ex: um
+ * documento que abre com uma linha horizontal) volta a ser markdown comum, com um
+ * diagnóstico `invalid-frontmatter` no lugar do erro.
+ */
+function readFrontmatter(
+  blocks: Block[],
+  source: string,
+  mdx: boolean,
+): { blocks: Block[]; frontmatter: Frontmatter; diagnostic?: Diagnostic } {
+  const index = blocks.findIndex((b) => b.kind === 'frontmatter')
+  if (index === -1) return { blocks, frontmatter: {} }
+  const block = blocks[index]!
+  try {
+    return { blocks, frontmatter: parseFrontmatter(block.raw, source) }
+  } catch (err) {
+    // O bloco começa no início do documento: as posições do novo scan já valem
+    const markdown = flattenBlocks(scanBlocks(block.raw, { mdx, frontmatter: false }))
+    return {
+      blocks: [...blocks.slice(0, index), ...markdown, ...blocks.slice(index + 1)],
+      frontmatter: {},
+      diagnostic: {
+        severity: 'warning',
+        code: 'invalid-frontmatter',
+        message: `${(err as Error).message}; the block was parsed as Markdown`,
+        position: block.position,
+      },
+    }
+  }
+}
+
+/** Estado compartilhado entre os lotes de blocos de um mesmo documento */
+interface RenderContext {
+  source: string
+  mdx: boolean
+  definitions: Definitions
+  /** Slugs já usados no documento, para numerar headings repetidos */
+  slugger: Slugger
+  baseUrl?: string | undefined
+  plugins: ParserPlugin[]
+}
+
+// Links externos (`https:`, `mailto:`, `//cdn`) ficam como estão
+function resolveHref(href: string, baseUrl: string | undefined): string {
+  if (!baseUrl || !href || href.startsWith('#') || isExternalHref(href)) return href
+  try {
+    return new URL(href, baseUrl).href
+  } catch {
+    return href
+  }
+}
+
+/**
+ * Converte blocos (já achatados) em seções, numeradas a partir de `start`
+ */
+async function renderSections(
+  blocks: Block[],
+  start: number,
+  context: RenderContext,
+): Promise<Section[]> {
+  const { mdx, slugger, baseUrl } = context
+  const html = renderBlocks(blocks, context.definitions, mdx)
   const sections: Section[] = []
-  let idx = 0
+  let idx = start
 
   // State
+  let block: Block | undefined
+  let position: Position = blocks[0]?.position ?? DOC_START
   let currentHeading: { level: number; text: string } | null = null
-  let currentCode: { lang: string; code: string } | null = null
-  let currentTable: { headers: string[]; rows: string[][] } | null = null
-  let currentList: { ordered: boolean; items: string[] } | null = null
-  let currentRow: string[] = []
-  let currentListItem = ''
+  let currentCode: { lang: string; meta: CodeMeta; code: string } | null = null
+  type Cell = { text: string; inline: InlineNode[] }
+  type ListFrame = { ordered: boolean; start: number; items: ListItem[] }
+  let currentTable: { headers: string[]; align: TableAlign[]; rows: Cell[][] } | null = null
+  let currentRow: Cell[] = []
+  let currentAlign: TableAlign[] = []
   let inThead = false
-  let cellIndex = 0
+  // Listas e itens abertos (listas aninhadas viram `children` do item que as contém)
+  const listStack: ListFrame[] = []
+  const itemStack: { checked?: boolean; children: ListItem[] }[] = []
+  // Blockquotes abertos: onde começam suas seções e quantos itens de lista já estavam abertos
+  const quoteStack: { start: number; items: number }[] = []
+  const containers: CalloutSection[] = []
+  let inPre = false
+  // Fences dentro do bloco atual (listas, blockquotes), lidos sob demanda
+  let blockFences: FenceInfo[] | undefined
+  let fenceIndex = 0
+  const inline = createInlineBuilder()
 
   const rewriter = new HTMLRewriter()
+    .onDocument({
+      comments(comment) {
+        const marker = comment.text.match(BLOCK_MARKER)
+        if (!marker) return
+        block = blocks[Number(marker[1])]!
+        position = block.position
+        blockFences = undefined
+        fenceIndex = 0
+        if (block.kind === 'esm' || block.kind === 'jsx') {
+          const section = mdxSection(block, idx)
+          if (section) {
+            sections.push(section)
+            idx++
+          }
+        }
+        if (block.kind === 'container') {
+          // Filhos são preenchidos depois, quando as seções dos blocos internos existirem
+          const opening = block.raw.split(/\r?\n/)[0]!
+          const marker = parseContainerInfo(opening)
+          if (marker) {
+            const callout = calloutSection(marker, [], idx++, block.raw, position)
+            sections.push(callout)
+            containers.push(callout)
+          } else {
+            // Abertura que o scanner aceitou mas que não tem rótulo: fica como texto
+            const text = opening.trim()
+            const nodes: InlineNode[] = [{ type: 'text', value: text }]
+            sections.push({
+              idx: idx++,
+              type: 'content',
+              text,
+              inline: nodes,
+              raw: opening,
+              position,
+            })
+          }
+        }
+      },
+      text(chunk) {
+        inline.text(chunk.text)
+      },
+    })
     // Headings
     .on('h1, h2, h3, h4, h5, h6', {
       element(el) {
@@ -87,14 +546,15 @@ export async function parseMarkdown(content: string, source = 'unknown'): Promis
         currentHeading = { level, text: '' }
         el.onEndTag(() => {
           if (currentHeading) {
-            const text = currentHeading.text.trim()
+            const text = decodeEntities(currentHeading.text).trim()
             sections.push({
               idx: idx++,
               type: 'heading',
               level: currentHeading.level,
               text,
-              slug: slugify(text),
+              slug: slugger.slug(text),
               raw: `${'#'.repeat(currentHeading.level)} ${text}`,
+              position,
             })
             currentHeading = null
           }
@@ -110,8 +570,16 @@ export async function parseMarkdown(content: string, source = 'unknown'): Promis
     .on('pre > code', {
       element(el) {
         const className = el.getAttribute('class') ?? ''
-        const match = className.match(/language-(\w+)/)
-        currentCode = { lang: match?.[1] ?? 'text', code: '' }
+        const match = className.match(/language-(\S+)/)
+        // Linguagem e meta vêm do info string original, também em fences aninhados
+        let fence: FenceInfo | undefined
+        if (block?.kind === 'code') fence = parseFenceInfo(block.raw.split('\n')[0]!)
+        else if (block) fence = (blockFences ??= nestedFences(block.raw))[fenceIndex++]
+        currentCode = {
+          lang: fence?.lang || match?.[1] || 'text',
+          meta: fence?.meta ?? parseCodeMeta(''),
+          code: '',
+        }
       },
       text(chunk) {
         if (currentCode) {
@@ -121,18 +589,26 @@ export async function parseMarkdown(content: string, source = 'unknown'): Promis
     })
     .on('pre', {
       element(el) {
+        inPre = true
+        inline.begin(false)
         el.onEndTag(() => {
+          inPre = false
+          inline.end()
           if (currentCode) {
-            const code = currentCode.code.trim()
+            const { lang, meta } = currentCode
+            const code = decodeEntities(currentCode.code).trim()
             // Detect filename from first line comment
             const filenameMatch = code.match(/^\/\/\s*(.+\.\w+)\s*\n|^#\s*(.+\.\w+)\s*\n/)
+            const info = meta.raw ? `${lang} ${meta.raw}` : lang
             sections.push({
               idx: idx++,
               type: 'code',
-              lang: currentCode.lang,
+              lang,
               code,
-              filename: filenameMatch?.[1] ?? filenameMatch?.[2],
-              raw: '```' + currentCode.lang + '\n' + code + '\n```',
+              filename: metaFilename(meta) ?? filenameMatch?.[1] ?? filenameMatch?.[2],
+              meta,
+              raw: '```' + info + '\n' + code + '\n```',
+              position,
             })
             currentCode = null
           }
@@ -142,23 +618,38 @@ export async function parseMarkdown(content: string, source = 'unknown'): Promis
     // Tables
     .on('table', {
       element(el) {
-        currentTable = { headers: [], rows: [] }
+        currentTable = { headers: [], align: [], rows: [] }
         inThead = false
         el.onEndTag(() => {
           if (currentTable) {
+            const { headers, align } = currentTable
             const rows = currentTable.rows.map((row) => {
               const obj: Record<string, string> = {}
-              currentTable!.headers.forEach((h, i) => {
-                obj[h] = row[i]?.trim() ?? ''
+              headers.forEach((h, i) => {
+                obj[h] = row[i]?.text ?? ''
+              })
+              return obj
+            })
+            const inlineRows = currentTable.rows.map((row) => {
+              const obj: Record<string, InlineNode[]> = {}
+              headers.forEach((h, i) => {
+                obj[h] = row[i]?.inline ?? []
               })
               return obj
             })
             sections.push({
               idx: idx++,
               type: 'table',
-              headers: currentTable.headers,
+              headers,
+              align,
               rows,
-              raw: formatTableMd(currentTable.headers, currentTable.rows),
+              inlineRows,
+              raw: formatTableMd(
+                headers,
+                align,
+                currentTable.rows.map((row) => row.map((c) => c.text)),
+              ),
+              position,
             })
             currentTable = null
           }
@@ -178,11 +669,12 @@ export async function parseMarkdown(content: string, source = 'unknown'): Promis
     .on('tr', {
       element(el) {
         currentRow = []
-        cellIndex = 0
+        currentAlign = []
         el.onEndTag(() => {
           if (currentTable) {
             if (inThead || currentTable.headers.length === 0) {
-              currentTable.headers = [...currentRow]
+              currentTable.headers = currentRow.map((c) => c.text)
+              currentTable.align = currentAlign
             } else {
               currentTable.rows.push([...currentRow])
             }
@@ -191,114 +683,519 @@ export async function parseMarkdown(content: string, source = 'unknown'): Promis
       },
     })
     .on('th, td', {
-      text(chunk) {
-        if (!currentRow[cellIndex]) currentRow[cellIndex] = ''
-        currentRow[cellIndex] += chunk.text
-        if (chunk.lastInTextNode) cellIndex++
+      element(el) {
+        const align = el.getAttribute('align')
+        currentAlign.push(
+          align === 'left' || align === 'center' || align === 'right' ? align : null,
+        )
+        inline.begin()
+        el.onEndTag(() => {
+          const nodes = inline.end()
+          currentRow.push({ text: inlineText(nodes).trim(), inline: nodes })
+        })
       },
     })
     // Lists
     .on('ul, ol', {
       element(el) {
-        currentList = { ordered: el.tagName === 'ol', items: [] }
+        const ordered = el.tagName === 'ol'
+        const start = ordered ? parseInt(el.getAttribute('start') ?? '1') || 1 : 1
+        listStack.push({ ordered, start, items: [] })
         el.onEndTag(() => {
-          if (currentList && currentList.items.length > 0) {
+          const list = listStack.pop()!
+          const parentItem = itemStack.at(-1)
+          if (parentItem) {
+            parentItem.children.push(...list.items)
+          } else if (list.items.length > 0) {
             sections.push({
               idx: idx++,
               type: 'list',
-              ordered: currentList.ordered,
-              items: currentList.items,
-              raw: currentList.items
-                .map((item, i) => (currentList!.ordered ? `${i + 1}. ${item}` : `- ${item}`))
-                .join('\n'),
+              ordered: list.ordered,
+              ...(list.ordered ? { start: list.start } : {}),
+              items: list.items,
+              raw: formatListMd(list.items),
+              position,
             })
-            currentList = null
           }
         })
       },
     })
     .on('li', {
       element(el) {
-        currentListItem = ''
+        itemStack.push({ children: [] })
+        inline.begin()
         el.onEndTag(() => {
-          if (currentList) {
-            currentList.items.push(currentListItem.trim())
-          }
+          const frame = itemStack.pop()!
+          const nodes = inline.end()
+          const list = listStack.at(-1)
+          if (!list) return
+          list.items.push({
+            text: inlineText(nodes).trim(),
+            inline: nodes,
+            ...(frame.checked !== undefined ? { checked: frame.checked } : {}),
+            ...(list.ordered ? { number: list.start + list.items.length } : {}),
+            children: frame.children,
+          })
         })
       },
-      text(chunk) {
-        currentListItem += chunk.text
+    })
+    .on('li > input', {
+      element(el) {
+        const item = itemStack.at(-1)
+        if (item && el.getAttribute('type') === 'checkbox') {
+          item.checked = el.hasAttribute('checked')
+        }
+      },
+    })
+    // Blockquotes: viram callout quando o primeiro parágrafo começa com um marcador
+    .on('blockquote', {
+      element(el) {
+        quoteStack.push({ start: sections.length, items: itemStack.length })
+        el.onEndTag(() => {
+          const { start } = quoteStack.pop()!
+          const first = sections[start]
+          if (first?.type !== 'content') return
+          const found = readCalloutMarker(first.inline)
+          if (!found) return
+
+          const children = sections.slice(start)
+          if (found.inline.length > 0) {
+            first.inline = found.inline
+            first.text = inlineText(found.inline).trim()
+            first.raw = first.text
+          } else {
+            children.shift()
+          }
+          const direct = directChildren(children)
+          const raw = formatCalloutMd(found.marker, direct)
+          const callout = calloutSection(found.marker, direct, first.idx, raw, position)
+          sections.splice(start, sections.length - start, callout, ...children)
+          // Renumera a partir do callout, que passa a vir antes do conteúdo
+          idx = first.idx
+          for (const section of sections.slice(start)) section.idx = idx++
+        })
       },
     })
-    // Paragraphs
+    // Paragraphs (dentro de itens de lista o texto fica no próprio item)
     .on('p', {
       element(el) {
-        let text = ''
+        if (itemStack.length > (quoteStack.at(-1)?.items ?? 0)) return
+        inline.begin()
         el.onEndTag(() => {
-          if (text.trim()) {
+          const nodes = inline.end()
+          const text = inlineText(nodes).trim()
+          // Parágrafo só com imagens também vira seção, com texto vazio
+          if (text || inlineImages(nodes).length > 0) {
             sections.push({
               idx: idx++,
               type: 'content',
-              text: text.trim(),
-              raw: text.trim(),
+              text,
+              inline: nodes,
+              raw: text,
+              position,
             })
           }
         })
       },
-      text(chunk) {
-        // Handled in element
+    })
+    // Inline
+    .on('a', {
+      element(el) {
+        const title = el.getAttribute('title')
+        inline.open({
+          type: 'link',
+          href: resolveHref(decodeEntities(el.getAttribute('href') ?? ''), baseUrl),
+          ...(title ? { title: decodeEntities(title) } : {}),
+          children: [],
+        })
+        el.onEndTag(() => inline.close())
+      },
+    })
+    .on('em, strong', {
+      element(el) {
+        inline.open({ type: el.tagName === 'em' ? 'emphasis' : 'strong', children: [] })
+        el.onEndTag(() => inline.close())
+      },
+    })
+    .on('code', {
+      element(el) {
+        if (inPre) return
+        inline.open({ type: 'code', value: '' })
+        el.onEndTag(() => inline.close())
+      },
+    })
+    .on('img', {
+      element(el) {
+        const title = el.getAttribute('title')
+        inline.leaf({
+          type: 'image',
+          src: resolveHref(decodeEntities(el.getAttribute('src') ?? ''), baseUrl),
+          alt: decodeEntities(el.getAttribute('alt') ?? ''),
+          ...(title ? { title: decodeEntities(title) } : {}),
+        })
+      },
+    })
+    .on('br', {
+      element() {
+        inline.text('\n')
       },
     })
 
   await rewriter.transform(new Response(html)).text()
 
+  // Containers internos primeiro, para que os externos só fiquem com os filhos diretos
+  for (const callout of containers.toReversed()) {
+    const { start, end } = callout.position
+    callout.children = directChildren(
+      sections.filter(
+        (s) =>
+          s.idx > callout.idx &&
+          s.position.start.offset >= start.offset &&
+          s.position.end.offset <= end.offset,
+      ),
+    )
+  }
+
+  const extra = await renderPluginSections(html, blocks, context)
+  if (extra.length === 0) return sections
+  // Seções de plugins entram depois das seções que começam antes ou no mesmo ponto
+  for (const section of extra) {
+    const offset = section.position.start.offset
+    const at = sections.findIndex((s) => s.position.start.offset > offset)
+    if (at === -1) sections.push(section)
+    else sections.splice(at, 0, section)
+  }
+  sections.forEach((section, i) => (section.idx = start + i))
+  return sections
+}
+
+/**
+ * Roda os handlers dos plugins numa passada própria do HTMLRewriter, já que um
+ * elemento só guarda um `onEndTag` e o de um plugin substituiria o do parser
+ */
+async function renderPluginSections(
+  html: string,
+  blocks: Block[],
+  context: RenderContext,
+): Promise<Section[]> {
+  const withHandlers = context.plugins.filter((p) => p.handlers)
+  if (withHandlers.length === 0) return []
+
+  const sections: Section[] = []
+  let position: Position = blocks[0]?.position ?? DOC_START
+  const pluginContext = {
+    source: context.source,
+    mdx: context.mdx,
+    get position() {
+      return position
+    },
+    emit: (init: SectionInit) => {
+      const section = { position, ...init, idx: 0 } as Section
+      sections.push(section)
+      return section
+    },
+  }
+
+  const rewriter = new HTMLRewriter().onDocument({
+    comments(comment) {
+      const marker = comment.text.match(BLOCK_MARKER)
+      if (marker) position = blocks[Number(marker[1])]!.position
+    },
+  })
+  for (const plugin of withHandlers) {
+    for (const { selector, ...handlers } of plugin.handlers!(pluginContext)) {
+      rewriter.on(selector, handlers)
+    }
+  }
+  await rewriter.transform(new Response(html)).text()
+  return sections
+}
+
+function buildDoc(
+  source: string,
+  content: string,
+  frontmatter: Frontmatter,
+  sections: Section[],
+): ParsedDoc {
   // Extract typed sections
   const headings = sections.filter((s): s is HeadingSection => s.type === 'heading')
   const codeBlocks = sections.filter((s): s is CodeSection => s.type === 'code')
   const tables = sections.filter((s): s is TableSection => s.type === 'table')
-  const title = headings.find((h) => h.level === 1)?.text ?? source
+  const { links, images } = collectLinks(sections)
+  const title = frontmatter.title ?? headings.find((h) => h.level === 1)?.text ?? source
+  const outline = buildOutline(sections)
+  const diagnostics = collectDiagnostics(source, content, frontmatter, sections)
+  const sectionsUnder = (path: string | string[]) => {
+    const node = findNode(outline.root, path)
+    return node ? flattenNode(node) : []
+  }
+  // Índice montado na primeira busca
+  let index: SearchIndex | undefined
 
-  return {
+  const doc: ParsedDoc = {
     source,
+    content,
     title,
+    frontmatter,
     sections,
     headings,
     codeBlocks,
     tables,
+    links,
+    images,
+    outline: outline.root,
     total: sections.length,
     byType: <T extends SectionType>(type: T) =>
       sections.filter((s): s is Extract<Section, { type: T }> => s.type === type),
     byLang: (lang: string) => codeBlocks.filter((c) => c.lang === lang || c.lang.startsWith(lang)),
-    search: (query: string) => {
-      const q = query.toLowerCase()
-      return sections.filter((s) => s.raw.toLowerCase().includes(q))
+    search: (query: string, options?: SearchOptions) => {
+      index ??= createSearchIndex([doc])
+      return index.search(query, options)
+    },
+    sectionsUnder,
+    sectionUnder: (path: string | string[], type?: SectionType) =>
+      sectionsUnder(path).find((s) => (type ? s.type === type : s.type !== 'heading')),
+    breadcrumb: (section: Section) => outline.breadcrumbs.get(section.idx) ?? [],
+    resolveAnchor: (anchor: string) => {
+      const slug = normalizeAnchor(anchor)
+      return headings.find((h) => h.slug === slug)
     },
+    diagnostics,
+    report: (diagnostic: Diagnostic) => addDiagnostic(diagnostics, diagnostic),
+    toJSON: () => serializeDoc(doc),
+  }
+  return doc
+}
+
+/**
+ * Reconstrói um ParsedDoc salvo com `JSON.stringify(doc)`, com as consultas funcionando
+ * e `headings`/`codeBlocks`/`tables` apontando para os objetos de `sections`.
+ *
+ * ```ts
+ * await Bun.write('button.json', JSON.stringify(doc))
+ * const cached = hydrateDoc(await Bun.file('button.json').json())
+ * ```
+ */
+export function hydrateDoc(data: SerializedDoc): ParsedDoc {
+  const { source, content, frontmatter, sections, diagnostics } = restoreDoc(data)
+  const doc = buildDoc(source, content, frontmatter, sections)
+  // Diagnósticos reportados depois do parse (ex: `extractComponents`)
+  for (const diagnostic of diagnostics) doc.report(diagnostic)
+  return doc
+}
+
+function collectLinks(sections: Section[]): { links: DocLink[]; images: DocImage[] } {
+  const links: DocLink[] = []
+  const images: DocImage[] = []
+  const add = (section: Section, nodes: InlineNode[]) => {
+    for (const link of inlineLinks(nodes)) {
+      links.push({
+        href: link.href,
+        ...(link.title ? { title: link.title } : {}),
+        text: inlineText(link.children).trim(),
+        section,
+      })
+    }
+    for (const { src, alt, title } of inlineImages(nodes)) {
+      images.push({ src, alt, ...(title ? { title } : {}), section })
+    }
+  }
+
+  for (const section of sections) {
+    if (section.type === 'content') add(section, section.inline)
+    if (section.type === 'list') {
+      const visit = (items: ListItem[]) => {
+        for (const item of items) {
+          add(section, item.inline)
+          visit(item.children)
+        }
+      }
+      visit(section.items)
+    }
+    if (section.type === 'table') {
+      for (const row of section.inlineRows) {
+        for (const cell of Object.values(row)) add(section, cell)
+      }
+    }
   }
+
+  return { links, images }
+}
+
+function calloutSection(
+  marker: CalloutMarker,
+  children: Section[],
+  idx: number,
+  raw: string,
+  position: Position,
+): CalloutSection {
+  return {
+    idx,
+    type: 'callout',
+    kind: calloutKind(marker.label),
+    label: marker.label,
+    title: calloutTitle(marker),
+    children,
+    raw,
+    position,
+  }
+}
+
+/** Remove as seções que pertencem a um callout aninhado */
+function directChildren(sections: Section[]): Section[] {
+  const nested = new Set(sections.flatMap((s) => (s.type === 'callout' ? s.children : [])))
+  return sections.filter((s) => !nested.has(s))
+}
+
+function formatCalloutMd(marker: CalloutMarker, children: Section[]): string {
+  const head = `[!${marker.label.toUpperCase()}]${marker.title ? ` ${marker.title}` : ''}`
+  const body = children.map((s) => s.raw).join('\n\n')
+  return (body ? `${head}\n${body}` : head)
+    .split('\n')
+    .map((line) => (line ? `> ${line}` : '>'))
+    .join('\n')
+}
+
+function formatListMd(items: ListItem[], indent = ''): string {
+  return items
+    .map((item) => {
+      const marker = item.number !== undefined ? `${item.number}.` : '-'
+      const task = item.checked === undefined ? '' : item.checked ? '[x] ' : '[ ] '
+      const line = `${indent}${marker} ${task}${item.text}`
+      if (item.children.length === 0) return line
+      // Sub-itens alinham com o texto do item pai
+      const childIndent = indent + ' '.repeat(marker.length + 1)
+      return `${line}\n${formatListMd(item.children, childIndent)}`
+    })
+    .join('\n')
 }
 
-function formatTableMd(headers: string[], rows: string[][]): string {
+const ALIGN_DELIMITER = { left: ':---', center: ':---:', right: '---:' }
+
+function formatTableMd(headers: string[], align: TableAlign[], rows: string[][]): string {
   const header = `| ${headers.join(' | ')} |`
-  const separator = `| ${headers.map(() => '---').join(' | ')} |`
+  const delimiters = headers.map((_, i) => {
+    const column = align[i]
+    return column ? ALIGN_DELIMITER[column] : '---'
+  })
+  const separator = `| ${delimiters.join(' | ')} |`
   const body = rows.map((row) => `| ${row.join(' | ')} |`).join('\n')
   return [header, separator, body].join('\n')
 }
 
 // Fetch and parse from URL
-export async function fetchDocs(url: string): Promise<ParsedDoc> {
-  const res = await fetch(url)
-  if (!res.ok) {
-    throw new Error(`Failed to fetch ${url}: ${res.status}`)
-  }
-  const content = await res.text()
-  return parseMarkdown(content, url)
+/**
+ * Baixa e parseia um markdown remoto, com timeout, retry em 5xx/429 e cache opcional.
+ * URLs `github.com/…/blob/…` viram `raw.githubusercontent.com`; links e imagens
+ * relativos são resolvidos contra a URL baixada.
+ */
+export async function fetchDocs(url: string, options: FetchDocsOptions = {}): Promise<ParsedDoc> {
+  const { url: source, finalUrl, content } = await fetchText(url, options)
+  return parseMarkdown(content, source, { ...options, baseUrl: options.baseUrl ?? finalUrl })
 }
 
 // Parse local file
-export async function parseFile(path: string): Promise<ParsedDoc> {
+export async function parseFile(path: string, options: ParseFileOptions = {}): Promise<ParsedDoc> {
   const file = Bun.file(path)
   if (!(await file.exists())) {
     throw new Error(`File not found: ${path}`)
   }
-  const content = await file.text()
-  return parseMarkdown(content, path)
+  if (!options.stream) {
+    const content = await file.text()
+    return parseMarkdown(content, path, options)
+  }
+
+  let frontmatter: Frontmatter = {}
+  let diagnostic: Diagnostic | undefined
+  const sections: Section[] = []
+  const chunks: string[] = []
+  for await (const batch of streamBatches(file, path, options, (text) => chunks.push(text))) {
+    if (batch.frontmatter) frontmatter = batch.frontmatter
+    diagnostic ??= batch.diagnostic
+    sections.push(...batch.sections)
+  }
+  const transformed = await applyTransforms(sections, options.plugins ?? [], {
+    source: path,
+    frontmatter,
+  })
+  const doc = buildDoc(path, chunks.join(''), frontmatter, transformed)
+  if (diagnostic) doc.report(diagnostic)
+  return doc
+}
+
+/**
+ * Parseia markdown em stream, entregando as seções conforme os blocos ficam completos.
+ * Diferenças do `parseMarkdown`: definições de link só valem para os blocos depois
+ * delas, um container `:::`/JSX sem fechamento segura o restante até o fim, e o
+ * `transform` dos plugins roda em cada lote de seções.
+ *
+ * ```ts
+ * for await (const section of parseStream(Bun.file('api.md'))) {
+ *   if (section.type === 'table') break // o stream é cancelado
+ * }
+ * ```
+ */
+export async function* parseStream(
+  input: MarkdownInput,
+  source = 'unknown',
+  options: ParseOptions = {},
+): AsyncGenerator<Section> {
+  const plugins = options.plugins ?? []
+  let frontmatter: Frontmatter = {}
+  let idx = 0
+  for await (const batch of streamBatches(input, source, options)) {
+    if (batch.frontmatter) frontmatter = batch.frontmatter
+    const sections = await applyTransforms(batch.sections, plugins, { source, frontmatter }, idx)
+    idx += sections.length
+    yield* sections
+  }
+}
+
+async function* decodeChunks(
+  input: MarkdownInput,
+  onText?: (text: string) => void,
+): AsyncGenerator<string> {
+  const stream = input instanceof Blob ? input.stream() : input
+  const decoder = new TextDecoder()
+  for await (const chunk of stream) {
+    const text = typeof chunk === 'string' ? chunk : decoder.decode(chunk, { stream: true })
+    onText?.(text)
+    yield text
+  }
+  const tail = decoder.decode()
+  onText?.(tail)
+  if (tail) yield tail
+}
+
+/** Seções de cada lote de blocos completos; o frontmatter vem junto do lote em que aparece */
+async function* streamBatches(
+  input: MarkdownInput,
+  source: string,
+  options: ParseOptions,
+  onText?: (text: string) => void,
+): AsyncGenerator<{ frontmatter?: Frontmatter; diagnostic?: Diagnostic; sections: Section[] }> {
+  const mdx = options.mdx ?? /\.mdx$/i.test(source)
+  const definitions: Definitions = new Map()
+  const slugger = createSlugger()
+  let idx = 0
+
+  for await (const batch of scanStream(decodeChunks(input, onText), { mdx })) {
+    const hasFrontmatter = batch.some((b) => b.kind === 'frontmatter')
+    const { blocks, frontmatter, diagnostic } = readFrontmatter(flattenBlocks(batch), source, mdx)
+    linkDefinitions(blocks, definitions)
+    const sections = await renderSections(blocks, idx, {
+      source,
+      mdx,
+      definitions,
+      slugger,
+      baseUrl: options.baseUrl,
+      plugins: options.plugins ?? [],
+    })
+    idx += sections.length
+    yield {
+      ...(hasFrontmatter ? { frontmatter } : {}),
+      ...(diagnostic ? { diagnostic } : {}),
+      sections,
+    }
+  }
 }
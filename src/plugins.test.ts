@@ -0,0 +1,207 @@
+import { test, expect, describe } from 'bun:test'
+import { mkdtemp, rm } from 'node:fs/promises'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { extractComponents, type ExtractorPlugin } from './extractor'
+import {
+  parseFile,
+  parseMarkdown,
+  parseStream,
+  type BaseSection,
+  type ParserPlugin,
+  type Section,
+  type TableSection,
+} from './index'
+
+interface PropsTableSection extends BaseSection {
+  type: 'props-table'
+  of: string
+}
+
+interface TokenTableSection extends BaseSection {
+  type: 'token-table'
+  tokens: Record<string, string>
+}
+
+declare module './index' {
+  interface CustomSections {
+    'props-table': PropsTableSection
+    'token-table': TokenTableSection
+  }
+  interface ExtractedComponent {
+    propsTables?: string[]
+  }
+}
+
+/** `<PropsTable of="Button" />` em markdown (HTML) vira uma seção `props-table` */
+const propsTable: ParserPlugin = {
+  name: 'props-table',
+  handlers: ({ emit }) => [
+    {
+      selector: 'propstable',
+      element(el) {
+        const of = el.getAttribute('of') ?? ''
+        emit({ type: 'props-table', of, raw: `<PropsTable of="${of}" />` })
+      },
+    },
+  ],
+  // No MDX o JSX já vira seção `jsx`
+  transform: (sections) =>
+    sections.map((s): Section => {
+      if (s.type !== 'jsx' || s.name !== 'PropsTable') return s
+      const of = typeof s.attributes['of'] === 'string' ? s.attributes['of'] : ''
+      return { idx: s.idx, type: 'props-table', of, raw: s.raw, position: s.position }
+    }),
+}
+
+/** Tabelas Token | Value viram `token-table` */
+const tokenTables: ParserPlugin = {
+  name: 'token-table',
+  transform: (sections) =>
+    sections.map((s): Section => {
+      if (s.type !== 'table' || s.headers.join() !== 'Token,Value') return s
+      const tokens = Object.fromEntries(s.rows.map((row) => [row['Token']!, row['Value']!]))
+      return { idx: s.idx, type: 'token-table', tokens, raw: s.raw, position: s.position }
+    }),
+}
+
+const md = `# Button
+
+Intro
+
+<PropsTable of="Button" />
+
+## Tokens
+
+| Token | Value |
+| --- | --- |
+| \`--button-bg\` | \`#000\` |
+
+| Prop | Type |
+| --- | --- |
+| size | string |
+`
+
+// ── Handlers ───────────────────────────────────────────────────
+
+describe('handlers', () => {
+  test('seletores extras emitem seções na ordem do documento', async () => {
+    const doc = await parseMarkdown(md, 'button.md', { plugins: [propsTable] })
+    expect(doc.sections.map((s) => [s.idx, s.type])).toEqual([
+      [0, 'heading'],
+      [1, 'content'],
+      [2, 'props-table'],
+      [3, 'heading'],
+      [4, 'table'],
+      [5, 'table'],
+    ])
+    const [section] = doc.byType('props-table')
+    expect(section!.of).toBe('Button')
+    expect(section!.position.start.line).toBe(5)
+    expect(doc.breadcrumb(section!).map((h) => h.text)).toEqual(['Button'])
+  })
+
+  test('seletores embutidos não afetam as seções do parser; estado fica no closure', async () => {
+    const counter: ParserPlugin = {
+      name: 'counter',
+      handlers: ({ emit }) => {
+        let count = 0
+        return [
+          {
+            selector: 'h2',
+            element(el) {
+              el.onEndTag(() => {
+                count++
+                emit({ type: 'content', text: `h2 #${count}`, inline: [], raw: '' })
+              })
+            },
+          },
+        ]
+      },
+    }
+    const doc = await parseMarkdown('## A\n\n## B', 'x.md', { plugins: [counter] })
+    expect(doc.sections.map((s) => (s.type === 'content' ? s.text : s.type))).toEqual([
+      'heading',
+      'h2 #1',
+      'heading',
+      'h2 #2',
+    ])
+  })
+})
+
+// ── Transform ──────────────────────────────────────────────────
+
+describe('transform', () => {
+  test('substitui seções e renumera', async () => {
+    const doc = await parseMarkdown(md, 'button.md', { plugins: [propsTable, tokenTables] })
+    expect(doc.byType('token-table')[0]!.tokens).toEqual({ '--button-bg': '#000' })
+    expect(doc.tables.map((t: TableSection) => t.headers)).toEqual([['Prop', 'Type']])
+    expect(doc.sections.map((s) => s.idx)).toEqual([0, 1, 2, 3, 4, 5])
+  })
+
+  test('transform converte JSX do MDX', async () => {
+    const mdx = '# Button\n\n<PropsTable of="Button" />\n'
+    const doc = await parseMarkdown(mdx, 'button.mdx', { plugins: [propsTable] })
+    expect(doc.byType('props-table').map((s) => s.of)).toEqual(['Button'])
+    expect(doc.byType('jsx')).toEqual([])
+  })
+
+  test('transform pode remover seções e recebe o frontmatter', async () => {
+    const drop: ParserPlugin = {
+      name: 'drop-internal',
+      transform: (sections, { frontmatter, source }) => {
+        expect(source).toBe('a.md')
+        if (frontmatter['internal']) return sections.filter((s) => s.type === 'heading')
+      },
+    }
+    const doc = await parseMarkdown('---\ninternal: true\n---\n# A\n\nTexto', 'a.md', {
+      plugins: [drop],
+    })
+    expect(doc.sections.map((s) => [s.idx, s.type])).toEqual([[0, 'heading']])
+    expect(doc.total).toBe(1)
+  })
+
+  test('erro no plugin identifica o plugin', async () => {
+    const broken: ParserPlugin = {
+      name: 'broken',
+      transform: () => {
+        throw new Error('boom')
+      },
+    }
+    await expect(parseMarkdown('# A', 'a.md', { plugins: [broken] })).rejects.toThrow(
+      'Plugin "broken" failed: boom',
+    )
+  })
+
+  test('parseFile em stream e parseStream aplicam os plugins', async () => {
+    const plugins = [propsTable, tokenTables]
+    const dir = await mkdtemp(join(tmpdir(), 'mdxtractor-plugins-'))
+    const path = join(dir, 'button.md')
+    await Bun.write(path, md)
+    try {
+      const doc = await parseMarkdown(md, path, { plugins })
+      const streamed = await parseFile(path, { stream: true, plugins })
+      expect(streamed.sections).toEqual(doc.sections)
+      const sections: Section[] = []
+      for await (const section of parseStream(Bun.file(path), path, { plugins })) {
+        sections.push(section)
+      }
+      expect(sections.map((s) => [s.idx, s.type])).toEqual(doc.sections.map((s) => [s.idx, s.type]))
+    } finally {
+      await rm(dir, { recursive: true, force: true })
+    }
+  })
+})
+
+// ── Extractor ──────────────────────────────────────────────────
+
+test('plugins do extractor acrescentam campos ao componente', async () => {
+  const doc = await parseMarkdown(md, 'button.md', { plugins: [propsTable] })
+  const tables: ExtractorPlugin = {
+    name: 'props-tables',
+    extend: (_, d) => ({ propsTables: d.byType('props-table').map((s) => s.of) }),
+  }
+  const [component] = extractComponents(doc, { plugins: [tables] })
+  expect(component!.propsTables).toEqual(['Button'])
+  expect(component!.props.map((p) => p.name)).toEqual(['size'])
+})
@@ -0,0 +1,71 @@
+/**
+ * Plugins - Handlers extras no HTMLRewriter do parser e pós-processamento das seções
+ * Tipos de seção customizados entram na união `Section` por declaration merging (`CustomSections`)
+ */
+
+import type { Frontmatter } from './frontmatter'
+import type { Section } from './parser'
+import type { Position } from './scanner'
+
+/** Seção criada por um plugin; `idx` e `position` são preenchidos pelo parser */
+export type SectionInit<S = Section> = S extends Section
+  ? Omit<S, 'idx' | 'position'> & { position?: Position }
+  : never
+
+export interface PluginRenderContext {
+  source: string
+  mdx: boolean
+  /** Posição do bloco markdown que está sendo reescrito */
+  readonly position: Position
+  /** Adiciona uma seção na ordem do documento; o `idx` é definido depois da renderização */
+  emit: (section: SectionInit) => Section
+}
+
+export interface PluginHandler extends HTMLRewriterTypes.HTMLRewriterElementContentHandlers {
+  /** Seletor CSS do HTMLRewriter (tags de componentes chegam em minúsculas: `propstable`) */
+  selector: string
+}
+
+export interface TransformContext {
+  source: string
+  frontmatter: Frontmatter
+}
+
+export interface ParserPlugin {
+  name: string
+  /**
+   * Handlers do HTMLRewriter, numa passada separada da do parser (seletores como `h2`
+   * não interferem nas seções embutidas). A função roda a cada renderização, então o
+   * estado entre `element` e `onEndTag` pode ficar no closure.
+   */
+  handlers?: (context: PluginRenderContext) => PluginHandler[]
+  /** Pós-processa as seções; devolver um array substitui a lista (os `idx` são renumerados) */
+  transform?: (
+    sections: Section[],
+    context: TransformContext,
+  ) => Section[] | void | Promise<Section[] | void>
+}
+
+/**
+ * Roda os `transform` dos plugins em ordem e renumera as seções a partir de `start`
+ */
+export async function applyTransforms(
+  sections: Section[],
+  plugins: ParserPlugin[],
+  context: TransformContext,
+  start = 0,
+): Promise<Section[]> {
+  let result = sections
+  for (const plugin of plugins) {
+    if (!plugin.transform) continue
+    try {
+      result = (await plugin.transform(result, context)) ?? result
+    } catch (error) {
+      throw new Error(`Plugin "${plugin.name}" failed: ${(error as Error).message}`, {
+        cause: error,
+      })
+    }
+  }
+  result.forEach((section, i) => (section.idx = start + i))
+  return result
+}
@@ -0,0 +1,152 @@
+import { test, expect, describe } from 'bun:test'
+import { allowedValues, formatPropType, parsePropType, type PropType } from './proptype'
+
+// ── parsePropType ──────────────────────────────────────────────
+
+describe('parsePropType', () => {
+  test('literais e palavras-chave', () => {
+    expect(parsePropType('"sm"')).toEqual({ kind: 'literal', value: 'sm' })
+    expect(parsePropType("'md'")).toEqual({ kind: 'literal', value: 'md' })
+    expect(parsePropType('-1')).toEqual({ kind: 'literal', value: -1 })
+    expect(parsePropType('false')).toEqual({ kind: 'literal', value: false })
+    expect(parsePropType('boolean')).toEqual({ kind: 'keyword', name: 'boolean' })
+  })
+
+  test('escapes de strings são decodificados', () => {
+    expect(parsePropType('"a\\"b"')).toEqual({ kind: 'literal', value: 'a"b' })
+    expect(parsePropType("'it\\'s' | 'say \"hi\"'")).toEqual({
+      kind: 'union',
+      types: [
+        { kind: 'literal', value: "it's" },
+        { kind: 'literal', value: 'say "hi"' },
+      ],
+    })
+    expect(parsePropType('"\\u00e9\\n\\\\"')).toEqual({ kind: 'literal', value: 'é\n\\' })
+  })
+
+  test('uniões com pipes escapados, crases e pipe inicial', () => {
+    const expected: PropType = {
+      kind: 'union',
+      types: [
+        { kind: 'literal', value: 'sm' },
+        { kind: 'literal', value: 'md' },
+        { kind: 'keyword', name: 'undefined' },
+      ],
+    }
+    expect(parsePropType('`"sm" \\| "md" \\| undefined`')).toEqual(expected)
+    expect(parsePropType('| "sm" | "md" | undefined')).toEqual(expected)
+  })
+
+  test('arrays', () => {
+    expect(parsePropType('string[]')).toEqual({
+      kind: 'array',
+      element: { kind: 'keyword', name: 'string' },
+    })
+    expect(parsePropType('Array<number>')).toEqual(parsePropType('number[]'))
+    expect(parsePropType('("a" | "b")[][]')).toEqual({
+      kind: 'array',
+      element: {
+        kind: 'array',
+        element: {
+          kind: 'union',
+          types: [
+            { kind: 'literal', value: 'a' },
+            { kind: 'literal', value: 'b' },
+          ],
+        },
+      },
+    })
+  })
+
+  test('assinaturas de função', () => {
+    expect(parsePropType('(value: string, event?: Event, ...rest: any[]) => void')).toEqual({
+      kind: 'function',
+      parameters: [
+        { name: 'value', type: { kind: 'keyword', name: 'string' }, optional: false },
+        {
+          name: 'event',
+          type: { kind: 'reference', name: 'Event', typeArguments: [] },
+          optional: true,
+        },
+        {
+          name: '...rest',
+          type: { kind: 'array', element: { kind: 'keyword', name: 'any' } },
+          optional: false,
+        },
+      ],
+      returns: { kind: 'keyword', name: 'void' },
+    })
+    expect(parsePropType('() => Promise<void>')).toMatchObject({
+      kind: 'function',
+      parameters: [],
+      returns: { kind: 'reference', name: 'Promise' },
+    })
+  })
+
+  test('referências com argumentos de tipo', () => {
+    expect(parsePropType('ReactNode')).toEqual({
+      kind: 'reference',
+      name: 'ReactNode',
+      typeArguments: [],
+    })
+    expect(parsePropType('React.ComponentProps<"button">')).toEqual({
+      kind: 'reference',
+      name: 'React.ComponentProps',
+      typeArguments: [{ kind: 'literal', value: 'button' }],
+    })
+    expect(parsePropType('Record<string, Array<() => void>>')).toMatchObject({
+      kind: 'reference',
+      typeArguments: [{ kind: 'keyword' }, { kind: 'array', element: { kind: 'function' } }],
+    })
+  })
+
+  test('o que o modelo não cobre vira unparseable', () => {
+    for (const text of [
+      '{ a: string }',
+      'A & B',
+      '[string, number]',
+      'keyof typeof sizes',
+      '"unclosed',
+      '',
+    ]) {
+      expect(parsePropType(text)).toEqual({ kind: 'unparseable', text })
+    }
+    expect(parsePropType('`"a" \\| B & C`')).toEqual({ kind: 'unparseable', text: '"a" | B & C' })
+  })
+})
+
+// ── formatPropType ─────────────────────────────────────────────
+
+describe('formatPropType', () => {
+  test('volta para TypeScript normalizado', () => {
+    const cases: [string, string][] = [
+      ["'primary' \\| 'ghost'", '"primary" | "ghost"'],
+      ['Array<string | number>', '(string | number)[]'],
+      ['(() => void) | null', '(() => void) | null'],
+      [
+        '(e:React.MouseEvent<HTMLButtonElement>)=>void',
+        '(e: React.MouseEvent<HTMLButtonElement>) => void',
+      ],
+      ['{ a: string }', '{ a: string }'],
+      ['"a\\"b"', '"a\\"b"'],
+      ["'it\\'s'", '"it\'s"'],
+    ]
+    for (const [input, output] of cases) expect(formatPropType(parsePropType(input))).toBe(output)
+  })
+})
+
+// ── allowedValues ──────────────────────────────────────────────
+
+describe('allowedValues', () => {
+  test('valores de uniões de literais', () => {
+    expect(allowedValues(parsePropType('"sm" | "md" | 1 | null'))).toEqual(['sm', 'md', 1])
+    expect(allowedValues(parsePropType('boolean | undefined'))).toEqual([true, false])
+    expect(allowedValues(parsePropType('"a"'))).toEqual(['a'])
+  })
+
+  test('undefined quando há membros não literais', () => {
+    expect(allowedValues(parsePropType('"sm" | string'))).toBeUndefined()
+    expect(allowedValues(parsePropType('ReactNode'))).toBeUndefined()
+    expect(allowedValues(parsePropType('null'))).toBeUndefined()
+  })
+})
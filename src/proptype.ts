@@ -0,0 +1,297 @@
+/**
+ * Prop Types - Interpreta o tipo de uma prop escrito na tabela de props
+ * Literais, uniões, arrays, funções e referências; o resto vira `unparseable`
+ */
+
+export interface LiteralType {
+  kind: 'literal'
+  /** `"sm"` → `'sm'`, `1` → `1`, `true` → `true` */
+  value: string | number | boolean
+}
+
+export interface KeywordType {
+  kind: 'keyword'
+  /** `string`, `number`, `boolean`, `null`, `undefined`, `any`... */
+  name: string
+}
+
+export interface UnionType {
+  kind: 'union'
+  types: PropType[]
+}
+
+export interface ArrayType {
+  kind: 'array'
+  /** `string[]`, `Array<string>` */
+  element: PropType
+}
+
+export interface FunctionParameter {
+  /** Com `...` em parâmetros rest */
+  name: string
+  type: PropType
+  optional: boolean
+}
+
+export interface FunctionType {
+  kind: 'function'
+  parameters: FunctionParameter[]
+  returns: PropType
+}
+
+export interface ReferenceType {
+  kind: 'reference'
+  /** `ReactNode`, `React.ComponentProps` */
+  name: string
+  /** `<"button">` */
+  typeArguments: PropType[]
+}
+
+export interface UnparseableType {
+  kind: 'unparseable'
+  /** Texto original (objetos, interseções, tuplas, `keyof`...) */
+  text: string
+}
+
+export type PropType =
+  | LiteralType
+  | KeywordType
+  | UnionType
+  | ArrayType
+  | FunctionType
+  | ReferenceType
+  | UnparseableType
+
+const KEYWORDS = new Set([
+  'any',
+  'bigint',
+  'boolean',
+  'never',
+  'null',
+  'number',
+  'object',
+  'string',
+  'symbol',
+  'undefined',
+  'unknown',
+  'void',
+])
+// Operadores de tipo que o modelo não representa
+const UNSUPPORTED = new Set(['keyof', 'typeof', 'infer', 'readonly', 'unique', 'new', 'asserts'])
+
+type Token = { kind: 'string' | 'number' | 'name' | 'punct'; value: string }
+
+const TOKEN =
+  /\s*(?:(["'])((?:\\.|(?!\1)[^\\])*)\1|(-?\d+(?:\.\d+)?)(?![\w$])|([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)|(=>|\.\.\.|\S))/y
+
+/** Conteúdo de uma string literal sem os escapes (`"a\"b"` → `a"b`) */
+function unescapeString(body: string, quote: string): string {
+  // Aspas simples viram a forma com aspas duplas, que o JSON entende
+  const json =
+    quote === '"'
+      ? body
+      : body.replace(/\\(.)|"/g, (match, char?: string) =>
+          char === undefined ? '\\"' : char === "'" ? "'" : match,
+        )
+  try {
+    return JSON.parse(`"${json}"`) as string
+  } catch {
+    // Escapes que o JSON não aceita (`\x41`, `\'`): fica só o caractere
+    return body.replace(/\\(.)/g, '$1')
+  }
+}
+
+function tokenize(text: string): Token[] {
+  const tokens: Token[] = []
+  TOKEN.lastIndex = 0
+  while (TOKEN.lastIndex < text.length) {
+    const match = TOKEN.exec(text)
+    if (!match) break
+    const [, quote, string, number, name, punct] = match
+    if (quote !== undefined) tokens.push({ kind: 'string', value: unescapeString(string!, quote) })
+    else if (number !== undefined) tokens.push({ kind: 'number', value: number })
+    else if (name !== undefined) tokens.push({ kind: 'name', value: name })
+    else if (punct !== undefined) tokens.push({ kind: 'punct', value: punct })
+  }
+  return tokens
+}
+
+/** Parser descendente; lança erro no primeiro token inesperado */
+function createParser(tokens: Token[]) {
+  let i = 0
+  const peek = (offset = 0) => tokens[i + offset]
+  const is = (value: string, offset = 0) => peek(offset)?.value === value
+  const expect = (value: string) => {
+    if (!is(value)) throw new Error(`expected "${value}"`)
+    i++
+  }
+
+  function type(): PropType {
+    if (is('|')) i++
+    const types = [postfix()]
+    while (is('|')) {
+      i++
+      types.push(postfix())
+    }
+    if (types.length === 1) return types[0]!
+    return { kind: 'union', types: types.flatMap((t) => (t.kind === 'union' ? t.types : [t])) }
+  }
+
+  function postfix(): PropType {
+    let result = primary()
+    while (is('[') && is(']', 1)) {
+      i += 2
+      result = { kind: 'array', element: result }
+    }
+    return result
+  }
+
+  function primary(): PropType {
+    const token = peek()
+    if (!token) throw new Error('unexpected end')
+    if (token.kind === 'string') {
+      i++
+      return { kind: 'literal', value: token.value }
+    }
+    if (token.kind === 'number') {
+      i++
+      return { kind: 'literal', value: Number(token.value) }
+    }
+    if (token.kind === 'name') {
+      if (UNSUPPORTED.has(token.value)) throw new Error(`unsupported "${token.value}"`)
+      i++
+      if (token.value === 'true' || token.value === 'false') {
+        return { kind: 'literal', value: token.value === 'true' }
+      }
+      if (KEYWORDS.has(token.value)) return { kind: 'keyword', name: token.value }
+      const typeArguments = is('<') ? typeArgumentList() : []
+      if (
+        (token.value === 'Array' || token.value === 'ReadonlyArray') &&
+        typeArguments.length === 1
+      ) {
+        return { kind: 'array', element: typeArguments[0]! }
+      }
+      return { kind: 'reference', name: token.value, typeArguments }
+    }
+    if (token.value === '(') {
+      const start = i
+      try {
+        return functionType()
+      } catch {
+        // Não é função: tipo entre parênteses, como em `(string | number)[]`
+        i = start + 1
+        const inner = type()
+        expect(')')
+        return inner
+      }
+    }
+    throw new Error(`unexpected "${token.value}"`)
+  }
+
+  function typeArgumentList(): PropType[] {
+    expect('<')
+    const args = [type()]
+    while (is(',')) {
+      i++
+      args.push(type())
+    }
+    expect('>')
+    return args
+  }
+
+  function functionType(): FunctionType {
+    expect('(')
+    const parameters: FunctionParameter[] = []
+    while (!is(')')) {
+      const rest = is('...')
+      if (rest) i++
+      const name = peek()
+      if (name?.kind !== 'name' || name.value.includes('.')) throw new Error('expected parameter')
+      i++
+      const optional = is('?')
+      if (optional) i++
+      expect(':')
+      parameters.push({ name: rest ? `...${name.value}` : name.value, type: type(), optional })
+      if (is(',')) i++
+      else if (!is(')')) throw new Error('expected "," or ")"')
+    }
+    expect(')')
+    expect('=>')
+    return { kind: 'function', parameters, returns: type() }
+  }
+
+  return {
+    parse() {
+      const result = type()
+      if (i < tokens.length) throw new Error(`unexpected "${peek()!.value}"`)
+      return result
+    },
+  }
+}
+
+/**
+ * Tipo de uma prop como escrito na doc (`"sm" \| "md"`, `(value: string) => void`,
+ * `React.ComponentProps<"button">`). Pipes escapados de tabelas são aceitos; o que
+ * o modelo não cobre vira `{ kind: 'unparseable', text }`.
+ */
+export function parsePropType(text: string): PropType {
+  const source = text.replace(/`/g, '').replace(/\\\|/g, '|').trim()
+  try {
+    if (!source) throw new Error('empty type')
+    return createParser(tokenize(source)).parse()
+  } catch {
+    return { kind: 'unparseable', text: source }
+  }
+}
+
+/** Tipo de volta em TypeScript, com strings entre aspas duplas */
+export function formatPropType(type: PropType): string {
+  switch (type.kind) {
+    case 'literal':
+      return typeof type.value === 'string' ? JSON.stringify(type.value) : String(type.value)
+    case 'keyword':
+      return type.name
+    case 'union':
+      return type.types
+        .map((t) => (t.kind === 'function' ? `(${formatPropType(t)})` : formatPropType(t)))
+        .join(' | ')
+    case 'array': {
+      const element = formatPropType(type.element)
+      const wrap = type.element.kind === 'union' || type.element.kind === 'function'
+      return wrap ? `(${element})[]` : `${element}[]`
+    }
+    case 'function': {
+      const parameters = type.parameters.map(
+        (p) => `${p.name}${p.optional ? '?' : ''}: ${formatPropType(p.type)}`,
+      )
+      return `(${parameters.join(', ')}) => ${formatPropType(type.returns)}`
+    }
+    case 'reference':
+      return type.typeArguments.length > 0
+        ? `${type.name}<${type.typeArguments.map(formatPropType).join(', ')}>`
+        : type.name
+    case 'unparseable':
+      return type.text
+  }
+}
+
+/**
+ * Valores aceitos quando o tipo é um literal ou uma união de literais (`null` e
+ * `undefined` são ignorados); `boolean` conta como `true | false`. Senão `undefined`.
+ *
+ * ```ts
+ * allowedValues(parsePropType(`"primary" \| "ghost"`)) // ['primary', 'ghost']
+ * ```
+ */
+export function allowedValues(type: PropType): (string | number | boolean)[] | undefined {
+  const members = type.kind === 'union' ? type.types : [type]
+  const values: (string | number | boolean)[] = []
+  for (const member of members) {
+    if (member.kind === 'literal') values.push(member.value)
+    else if (member.kind === 'keyword' && member.name === 'boolean') values.push(true, false)
+    else if (member.kind !== 'keyword' || (member.name !== 'null' && member.name !== 'undefined')) {
+      return undefined
+    }
+  }
+  return values.length > 0 ? [...new Set(values)] : undefined
+}
@@ -0,0 +1,225 @@
+import { test, expect, describe } from 'bun:test'
+import { flattenBlocks, scanBlocks, scanStream, type Block } from './scanner'
+
+// ── scanBlocks ─────────────────────────────────────────────────
+
+describe('scanBlocks', () => {
+  test('documento vazio não gera blocos', () => {
+    expect(scanBlocks('')).toHaveLength(0)
+    expect(scanBlocks('\n\n  \n')).toHaveLength(0)
+  })
+
+  test('separa blocos por tipo', () => {
+    const md = '# Title\n\nSome text.\n\n```ts\nconst x = 1\n```\n\n- a\n- b\n\n> quote\n\n---'
+    const kinds = scanBlocks(md).map((b) => b.kind)
+    expect(kinds).toEqual(['heading', 'paragraph', 'code', 'list', 'blockquote', 'thematicBreak'])
+  })
+
+  test('raw corresponde ao trecho original do bloco', () => {
+    const md = 'intro\n\n| A | B |\n| --- | --- |\n| 1 | 2 |\n\nfim'
+    const blocks = scanBlocks(md)
+    for (const block of blocks) {
+      expect(md.slice(block.position.start.offset, block.position.end.offset)).toBe(block.raw)
+    }
+    expect(blocks[1]!.kind).toBe('table')
+    expect(blocks[1]!.raw).toBe('| A | B |\n| --- | --- |\n| 1 | 2 |')
+  })
+
+  test('posições usam linha/coluna 1-based e fim exclusivo', () => {
+    const blocks = scanBlocks('# A\n\n```ts\nlong line\n```')
+    expect(blocks[1]!.position).toEqual({
+      start: { line: 3, column: 1, offset: 5, byteOffset: 5 },
+      end: { line: 5, column: 4, offset: 24, byteOffset: 24 },
+    })
+  })
+
+  test('aceita quebras de linha CRLF', () => {
+    const blocks = scanBlocks('# A\r\n\r\ntext\r\n')
+    expect(blocks.map((b) => b.raw)).toEqual(['# A', 'text'])
+    expect(blocks[1]!.position.start).toEqual({
+      line: 3,
+      column: 1,
+      offset: 7,
+      byteOffset: 7,
+    })
+  })
+
+  test('linhas em branco dentro de code fence não quebram o bloco', () => {
+    const blocks = scanBlocks('```\na\n\n\nb\n```\nafter')
+    expect(blocks).toHaveLength(2)
+    expect(blocks[0]!.position.end.line).toBe(6)
+  })
+
+  test('code fence sem fechamento vai até o fim', () => {
+    const blocks = scanBlocks('~~~~py\nx = 1\n~~~\n')
+    expect(blocks).toHaveLength(1)
+    expect(blocks[0]!.kind).toBe('code')
+  })
+
+  test('heading setext inclui a linha de sublinhado', () => {
+    const blocks = scanBlocks('Title\n=====\n\nSub\n---')
+    expect(blocks.map((b) => b.kind)).toEqual(['heading', 'heading'])
+    expect(blocks[1]!.raw).toBe('Sub\n---')
+  })
+
+  test('lista continua em itens soltos e sub-itens indentados', () => {
+    const md = '- a\n\n  continued\n  - nested\n- b\n\nparagraph'
+    const blocks = scanBlocks(md)
+    expect(blocks.map((b) => b.kind)).toEqual(['list', 'paragraph'])
+    expect(blocks[0]!.position.end.line).toBe(5)
+  })
+
+  test('troca de marcador inicia nova lista', () => {
+    const blocks = scanBlocks('- a\n* b\n1. c')
+    expect(blocks.map((b) => b.raw)).toEqual(['- a', '* b', '1. c'])
+  })
+
+  test('tabela interrompe parágrafo', () => {
+    const blocks = scanBlocks('para\n| a | b |\n|---|---|\n| 1 | 2 |')
+    expect(blocks.map((b) => b.kind)).toEqual(['paragraph', 'table'])
+  })
+
+  test('bloco HTML vai até a linha em branco', () => {
+    const blocks = scanBlocks('<div>\n  <b>x</b>\n</div>\n\ntext')
+    expect(blocks.map((b) => b.kind)).toEqual(['html', 'paragraph'])
+  })
+
+  test('detecta definições de link', () => {
+    const blocks = scanBlocks('[docs]: https://example.com\n\n[Docs][docs]')
+    expect(blocks[0]!.kind).toBe('definition')
+  })
+
+  test('definição com destino e título nas linhas seguintes', () => {
+    const blocks = scanBlocks(
+      '[id]: https://x.com\n  "Title"\n[b]:\n  /b\n  (B)\n[c]: /c "C"\n"texto"',
+    )
+    expect(blocks.map((b) => [b.kind, b.raw])).toEqual([
+      ['definition', '[id]: https://x.com\n  "Title"'],
+      ['definition', '[b]:\n  /b\n  (B)'],
+      ['definition', '[c]: /c "C"'],
+      ['paragraph', '"texto"'],
+    ])
+  })
+
+  test('frontmatter só é reconhecido na primeira linha', () => {
+    expect(scanBlocks('---\ntitle: X\n---\n\n# A')[0]!.kind).toBe('frontmatter')
+    expect(scanBlocks('+++\ntitle = "X"\n+++')[0]!.kind).toBe('frontmatter')
+    expect(scanBlocks('# A\n\n---\ntitle: X\n---')[1]!.kind).toBe('thematicBreak')
+  })
+
+  test('frontmatter sem fechamento é tratado como markdown', () => {
+    expect(scanBlocks('---\ntitle: X')[0]!.kind).toBe('thematicBreak')
+  })
+
+  test('container `:::` vira bloco com filhos', () => {
+    const md = ':::tip Title\nText.\n\n```md\n:::\n```\n:::\n\nafter'
+    const [container, after] = scanBlocks(md)
+    expect(container!.kind).toBe('container')
+    expect(container!.position.end.line).toBe(7)
+    expect(container!.children!.map((b) => b.kind)).toEqual(['paragraph', 'code'])
+    expect(after!.kind).toBe('paragraph')
+  })
+
+  test('container externo usa mais `:` que o interno', () => {
+    const md = '::::note\n:::tip\nx\n:::\n::::'
+    const [outer] = scanBlocks(md)
+    expect(outer!.children!.map((b) => b.kind)).toEqual(['container'])
+    expect(outer!.children![0]!.children!.map((b) => b.raw)).toEqual(['x'])
+  })
+
+  test('container sem fechamento é parágrafo', () => {
+    expect(scanBlocks(':::tip\ntext')[0]!.kind).toBe('paragraph')
+  })
+
+  test('sem mdx, código indentado e HTML seguem o CommonMark', () => {
+    const blocks = scanBlocks('import x from "y"\n\n<Demo />\n\n    code')
+    expect(blocks.map((b) => b.kind)).toEqual(['paragraph', 'html', 'code'])
+  })
+})
+
+// ── MDX ────────────────────────────────────────────────────────
+
+describe('scanBlocks (mdx)', () => {
+  test('statements ESM vão até a linha em branco', () => {
+    const md =
+      'import { A } from "a"\nimport B from "b"\n\nexport const meta = {\n  x: 1,\n}\n\ntext'
+    const blocks = scanBlocks(md, { mdx: true })
+    expect(blocks.map((b) => b.kind)).toEqual(['esm', 'esm', 'paragraph'])
+    expect(blocks[1]!.raw).toBe('export const meta = {\n  x: 1,\n}')
+  })
+
+  test('JSX atravessa linhas em branco até o fechamento', () => {
+    const md = '<Tabs>\n\n## Inside\n\n</Tabs>\n\nafter'
+    const blocks = scanBlocks(md, { mdx: true })
+    expect(blocks.map((b) => b.kind)).toEqual(['jsx', 'paragraph'])
+    expect(blocks[0]!.position.end.line).toBe(5)
+  })
+
+  test('conteúdo entre tags em linhas próprias vira children', () => {
+    const md = '<Steps>\n### One\n\n```sh\nrun\n```\n</Steps>'
+    const [steps] = scanBlocks(md, { mdx: true })
+    expect(steps!.children!.map((b) => b.kind)).toEqual(['heading', 'code'])
+    expect(steps!.children![1]!.position.start.line).toBe(4)
+  })
+
+  test('JSX seguido de texto na mesma linha é parágrafo', () => {
+    const blocks = scanBlocks('<Badge>New</Badge> component', { mdx: true })
+    expect(blocks[0]!.kind).toBe('paragraph')
+  })
+
+  test('desliga código indentado', () => {
+    const blocks = scanBlocks('    not code', { mdx: true })
+    expect(blocks[0]!.kind).toBe('paragraph')
+  })
+
+  test('flattenBlocks lista filhos após o pai', () => {
+    const md = '<A>\n<B>\n# x\n</B>\n</A>\n\n# y'
+    const kinds = flattenBlocks(scanBlocks(md, { mdx: true })).map((b) => b.raw.split('\n')[0])
+    expect(kinds).toEqual(['<A>', '<B>', '# x', '# y'])
+  })
+})
+
+// ── scanStream ─────────────────────────────────────────────────
+
+async function* pieces(text: string, size: number): AsyncGenerator<string> {
+  for (let i = 0; i < text.length; i += size) yield text.slice(i, i + size)
+}
+
+async function scanAll(text: string, size: number, options = {}): Promise<Block[][]> {
+  const batches: Block[][] = []
+  for await (const batch of scanStream(pieces(text, size), options)) batches.push(batch)
+  return batches
+}
+
+describe('scanStream', () => {
+  test('mesmos blocos e posições do scanBlocks', async () => {
+    const md =
+      '---\ntitle: X\n---\n\n# Ação 🚀\n\n- a\n\n  b\n\n```\nx\n\ny\n```\n\ntext\n---\n\n> q'
+    for (const size of [1, 4, 1000]) {
+      expect((await scanAll(md, size)).flat()).toEqual(scanBlocks(md))
+    }
+  })
+
+  test('só devolve um bloco depois que o seguinte começou', async () => {
+    const batches = await scanAll('# A\n\npara\n\n# B\n', 1)
+    expect(batches.map((b) => b.map((block) => block.raw))).toEqual([['# A'], ['para'], ['# B']])
+  })
+
+  test('container aberto segura os blocos seguintes até fechar', async () => {
+    const batches = await scanAll(':::tip\n# A\n\n# B\n:::\n\nend', 2)
+    expect(batches.flat().map((b) => b.kind)).toEqual(['container', 'paragraph'])
+  })
+
+  test('bloco grande em muitos pedaços sai inteiro e com a posição certa', async () => {
+    const rows = Array.from({ length: 2000 }, (_, i) => `| ${i} | b |`).join('\n')
+    const md = `# T\n\n| A | B |\n| --- | --- |\n${rows}\n\nafter\n`
+    const batches = await scanAll(md, 64)
+    expect(batches.flat()).toEqual(scanBlocks(md))
+    expect(batches.flat().map((b) => b.kind)).toEqual(['heading', 'table', 'paragraph'])
+  })
+
+  test('`---` depois do início não vira frontmatter', async () => {
+    const blocks = (await scanAll('# A\n\n---\ntitle: X\n---\n', 3)).flat()
+    expect(blocks.map((b) => b.kind)).not.toContain('frontmatter')
+  })
+})
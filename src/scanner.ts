@@ -0,0 +1,579 @@
+/**
+ * Block Scanner - Divide o markdown em blocos de nível superior
+ * Cada bloco carrega sua posição no texto original (linha, coluna, offsets)
+ */
+
+import { findJsxElement } from './jsx'
+
+export interface Point {
+  /** Linha (1-based) */
+  line: number
+  /** Coluna (1-based, em unidades UTF-16) */
+  column: number
+  /** Índice no texto original (0-based) em unidades UTF-16, como em `string.slice` */
+  offset: number
+  /** Offset em bytes do texto codificado em UTF-8 (0-based) */
+  byteOffset: number
+}
+
+export interface Position {
+  start: Point
+  /** Exclusivo: aponta logo após o último caractere do bloco */
+  end: Point
+}
+
+/** Posição vazia no início do documento, para o que não tem lugar próprio */
+export const DOC_START: Position = {
+  start: { line: 1, column: 1, offset: 0, byteOffset: 0 },
+  end: { line: 1, column: 1, offset: 0, byteOffset: 0 },
+}
+
+export type BlockKind =
+  | 'heading'
+  | 'code'
+  | 'table'
+  | 'list'
+  | 'blockquote'
+  | 'html'
+  | 'paragraph'
+  | 'thematicBreak'
+  | 'definition'
+  | 'frontmatter'
+  | 'esm'
+  | 'jsx'
+  | 'container'
+
+export interface Block {
+  kind: BlockKind
+  /** Texto original do bloco, linhas completas (inclui indentação) */
+  raw: string
+  position: Position
+  /** Blocos markdown dentro de um elemento JSX de várias linhas ou de um container `:::` */
+  children?: Block[]
+}
+
+export interface ScanOptions {
+  /** Reconhece ESM (`import`/`export`) e JSX; desliga código indentado, como no MDX */
+  mdx?: boolean
+  /** Reconhece frontmatter na primeira linha (padrão: `true`) */
+  frontmatter?: boolean
+}
+
+interface Line {
+  text: string
+  offset: number
+  byteOffset: number
+  /** Número da linha (1-based) */
+  number: number
+}
+
+const FENCE_OPEN = /^( {0,3})(`{3,}|~{3,})(.*)$/
+const ATX_HEADING = /^ {0,3}#{1,6}(?:[ \t]|$)/
+const SETEXT_UNDERLINE = /^ {0,3}(?:=+|-+)[ \t]*$/
+const THEMATIC_BREAK = /^ {0,3}(?:(?:\*[ \t]*){3,}|(?:-[ \t]*){3,}|(?:_[ \t]*){3,})$/
+const LIST_ITEM = /^( {0,3})([-+*]|\d{1,9}[.)])(?:([ \t]+)|$)/
+const BLOCKQUOTE = /^ {0,3}>/
+const HTML_OPEN = /^ {0,3}<(?:[A-Za-z][\w.:-]*|\/[A-Za-z]|!--|\?|![A-Z])/
+const HTML_BLOCK_TAG =
+  /^ {0,3}<\/?(?:address|article|aside|blockquote|body|details|dialog|div|dl|fieldset|figcaption|figure|footer|form|h[1-6]|header|hr|li|main|nav|ol|p|pre|script|section|style|summary|table|tbody|td|textarea|tfoot|th|thead|tr|ul)(?:[\s/>]|$)/i
+const HTML_RAW_TAG = /^ {0,3}<(script|pre|style|textarea)(?:[\s>]|$)/i
+const DEFINITION = /^ {0,3}\[(?:[^\]\\]|\\.)+\]:/
+const DEFINITION_TITLE =
+  /^[ \t]*(?:"(?:[^"\\]|\\.)*"|'(?:[^'\\]|\\.)*'|\((?:[^()\\]|\\.)*\))[ \t]*$/
+const INDENTED_CODE = /^(?: {4}|\t)/
+const FRONTMATTER_OPEN = /^\uFEFF?(---|\+\+\+)[ \t]*$/
+const ESM_STATEMENT = /^(?:import|export)(?=[\s{*])/
+const JSX_OPEN = /^ {0,3}<(?:[A-Za-z_$]|>)/
+const CONTAINER_OPEN = /^ {0,3}(:{3,})[ \t]*[\w-]/
+const TABLE_DELIMITER = /^ {0,3}\|?[ \t]*:?-+:?[ \t]*(?:\|[ \t]*:?-+:?[ \t]*)*\|?[ \t]*$/
+
+function isBlank(text: string): boolean {
+  return text.trim() === ''
+}
+
+function indentOf(text: string): number {
+  return text.length - text.trimStart().length
+}
+
+/** Tamanho do texto em bytes, codificado em UTF-8 */
+export function utf8Length(text: string): number {
+  return Buffer.byteLength(text, 'utf8')
+}
+
+function splitLines(content: string): Line[] {
+  const lines: Line[] = []
+  let offset = 0
+  let byteOffset = 0
+  while (offset <= content.length) {
+    const nl = content.indexOf('\n', offset)
+    const end = nl === -1 ? content.length : nl
+    const text = content.slice(offset, end).replace(/\r$/, '')
+    lines.push({ text, offset, byteOffset, number: lines.length + 1 })
+    if (nl === -1) break
+    byteOffset += utf8Length(content.slice(offset, nl + 1))
+    offset = nl + 1
+  }
+  return lines
+}
+
+function isFenceOpen(text: string): boolean {
+  const open = text.match(FENCE_OPEN)
+  // Info string de fences com crase não pode conter crase
+  return !!open && !(open[2]!.startsWith('`') && open[3]!.includes('`'))
+}
+
+/** Células de uma linha de tabela, sem os pipes das bordas (pipes escapados não contam) */
+export function splitCells(text: string): string[] {
+  return text
+    .trim()
+    .replace(/^\|/, '')
+    .replace(/(?<!\\)\|$/, '')
+    .split(/(?<!\\)\|/)
+}
+
+export function countCells(text: string): number {
+  return splitCells(text).length
+}
+
+/** Linha delimitadora de tabela (`| --- | :-: |`) */
+export function isTableDelimiter(text: string): boolean {
+  return TABLE_DELIMITER.test(text)
+}
+
+function isTableStart(lines: Line[], i: number): boolean {
+  const header = lines[i]?.text
+  const delimiter = lines[i + 1]?.text
+  if (header === undefined || delimiter === undefined) return false
+  if (!header.includes('|') || !isTableDelimiter(delimiter)) return false
+  return countCells(header) === countCells(delimiter)
+}
+
+/** Linhas que encerram um parágrafo (ou uma continuação "lazy") */
+function interruptsParagraph(lines: Line[], i: number): boolean {
+  const text = lines[i]!.text
+  if (isFenceOpen(text) || ATX_HEADING.test(text) || THEMATIC_BREAK.test(text)) return true
+  if (BLOCKQUOTE.test(text) || HTML_BLOCK_TAG.test(text) || /^ {0,3}<!--/.test(text)) return true
+  if (isTableStart(lines, i)) return true
+  const item = text.match(LIST_ITEM)
+  if (item?.[3] && !isBlank(text.slice(item[0].length))) {
+    return !/^\d/.test(item[2]!) || item[2]!.startsWith('1')
+  }
+  return false
+}
+
+function listMarkerKind(marker: string): string {
+  return /^\d/.test(marker) ? `ordered${marker.at(-1)}` : marker
+}
+
+/** Devolve o índice (exclusivo) da última linha do bloco que começa em `i` */
+function scanFence(lines: Line[], i: number): number {
+  const open = lines[i]!.text.match(FENCE_OPEN)!
+  const fence = open[2]!
+  const close = new RegExp(`^ {0,3}${fence[0] === '`' ? '`' : '~'}{${fence.length},}[ \\t]*$`)
+  for (let j = i + 1; j < lines.length; j++) {
+    if (close.test(lines[j]!.text)) return j + 1
+  }
+  return lines.length
+}
+
+function scanList(lines: Line[], i: number): number {
+  const first = lines[i]!.text.match(LIST_ITEM)!
+  const kind = listMarkerKind(first[2]!)
+  let contentIndent = first[1]!.length + first[2]!.length + 1
+  let j = i + 1
+
+  while (j < lines.length) {
+    const text = lines[j]!.text
+    if (isBlank(text)) {
+      let k = j + 1
+      while (k < lines.length && isBlank(lines[k]!.text)) k++
+      if (k >= lines.length) return j
+      const next = lines[k]!.text
+      const item = next.match(LIST_ITEM)
+      const sameList = item && !THEMATIC_BREAK.test(next) && listMarkerKind(item[2]!) === kind
+      if (indentOf(next) < contentIndent && !sameList) return j
+      j = k
+      continue
+    }
+
+    const item = text.match(LIST_ITEM)
+    if (item && indentOf(text) < contentIndent && !THEMATIC_BREAK.test(text)) {
+      if (listMarkerKind(item[2]!) !== kind) return j
+      contentIndent = item[1]!.length + item[2]!.length + 1
+      j++
+      continue
+    }
+    if (indentOf(text) < contentIndent && interruptsParagraph(lines, j)) return j
+    j++
+  }
+  return j
+}
+
+function scanBlockquote(lines: Line[], i: number): number {
+  let j = i + 1
+  while (j < lines.length) {
+    const text = lines[j]!.text
+    if (BLOCKQUOTE.test(text)) {
+      j++
+      continue
+    }
+    if (isBlank(text) || isBlank(lines[j - 1]!.text.replace(/^ {0,3}>/, ''))) return j
+    if (interruptsParagraph(lines, j)) return j
+    j++
+  }
+  return j
+}
+
+function scanHtml(lines: Line[], i: number): number {
+  const text = lines[i]!.text
+  const raw = text.match(HTML_RAW_TAG)
+  const terminator = raw
+    ? new RegExp(`</${raw[1]}>`, 'i')
+    : /^ {0,3}<!--/.test(text)
+      ? /-->/
+      : /^ {0,3}<\?/.test(text)
+        ? /\?>/
+        : null
+
+  if (terminator) {
+    for (let j = i; j < lines.length; j++) {
+      if (terminator.test(lines[j]!.text)) return j + 1
+    }
+    return lines.length
+  }
+
+  let j = i + 1
+  while (j < lines.length && !isBlank(lines[j]!.text)) j++
+  return j
+}
+
+function scanTable(lines: Line[], i: number): number {
+  let j = i + 2
+  while (j < lines.length && !isBlank(lines[j]!.text) && !interruptsParagraph(lines, j)) j++
+  return j
+}
+
+/**
+ * Definição de link, com o destino (`[id]:` sozinho na linha) e o título
+ * (`"Title"`) podendo vir na linha seguinte
+ */
+function scanDefinition(lines: Line[], i: number): number {
+  let end = i + 1
+  let destination = lines[i]!.text.replace(DEFINITION, '')
+  if (isBlank(destination) && end < lines.length && !isBlank(lines[end]!.text)) {
+    destination = lines[end++]!.text
+  }
+  // Título na linha seguinte só quando a linha do destino não tem título
+  if (/^\s*\S+\s*$/.test(destination) && end < lines.length) {
+    if (DEFINITION_TITLE.test(lines[end]!.text)) end++
+  }
+  return end
+}
+
+function scanIndentedCode(lines: Line[], i: number): number {
+  let j = i + 1
+  let end = j
+  while (j < lines.length) {
+    const text = lines[j]!.text
+    if (INDENTED_CODE.test(text)) end = j + 1
+    else if (!isBlank(text)) break
+    j++
+  }
+  return end
+}
+
+/** Parágrafo ou heading setext (parágrafo seguido de `===` / `---`) */
+function scanParagraph(lines: Line[], i: number): { end: number; kind: BlockKind } {
+  let j = i + 1
+  while (j < lines.length) {
+    const text = lines[j]!.text
+    if (isBlank(text)) break
+    if (SETEXT_UNDERLINE.test(text)) return { end: j + 1, kind: 'heading' }
+    if (interruptsParagraph(lines, j)) break
+    j++
+  }
+  return { end: j, kind: 'paragraph' }
+}
+
+/** Frontmatter YAML (`---`) ou TOML (`+++`), só na primeira linha do documento */
+function scanFrontmatter(lines: Line[]): number {
+  const open = lines[0]!.text.match(FRONTMATTER_OPEN)
+  if (!open) return 0
+  const close = open[1] === '---' ? /^(?:---|\.\.\.)[ \t]*$/ : /^\+\+\+[ \t]*$/
+  for (let j = 1; j < lines.length; j++) {
+    if (close.test(lines[j]!.text)) return j + 1
+  }
+  return 0
+}
+
+function scanEsm(lines: Line[], i: number): number {
+  let j = i + 1
+  while (j < lines.length && !isBlank(lines[j]!.text)) j++
+  return j
+}
+
+/** Índice da linha que contém o offset `offset` */
+function lineAt(lines: Line[], offset: number): number {
+  let j = 0
+  while (j + 1 < lines.length && lines[j + 1]!.offset <= offset) j++
+  return j
+}
+
+function lineEnd(line: Line): number {
+  return line.offset + line.text.length
+}
+
+/**
+ * Elemento JSX em bloco: vai até a tag de fechamento correspondente, mesmo
+ * atravessando linhas em branco. Quando as tags ficam em linhas próprias,
+ * as linhas entre elas são escaneadas como markdown (`children`).
+ */
+function scanJsx(
+  content: string,
+  lines: Line[],
+  i: number,
+  options: ScanOptions,
+): { end: number; children?: Block[] } | null {
+  const line = lines[i]!
+  const element = findJsxElement(content, line.offset + indentOf(line.text))
+  if (!element) return null
+
+  // Texto depois do elemento na mesma linha: é JSX inline num parágrafo
+  const last = element.close ?? element.open
+  const endLine = lineAt(lines, last.end - 1)
+  if (!isBlank(content.slice(last.end, lineEnd(lines[endLine]!)))) return null
+
+  const { open, close } = element
+  if (!close) return { end: endLine + 1 }
+
+  const openLine = lineAt(lines, open.end - 1)
+  const closeLine = lineAt(lines, close.start)
+  const ownLines =
+    isBlank(content.slice(open.end, lineEnd(lines[openLine]!))) &&
+    isBlank(content.slice(lines[closeLine]!.offset, close.start))
+  if (!ownLines || closeLine <= openLine + 1) return { end: endLine + 1 }
+
+  return {
+    end: endLine + 1,
+    children: scanLines(content, lines.slice(openLine + 1, closeLine), options),
+  }
+}
+
+/**
+ * Container (`:::tip` ... `:::`): vai até a linha com pelo menos tantos `:`
+ * quanto a abertura, ignorando code fences. Sem fechamento não é container.
+ */
+function scanContainer(
+  content: string,
+  lines: Line[],
+  i: number,
+  options: ScanOptions,
+): { end: number; children: Block[] } | null {
+  const colons = lines[i]!.text.match(CONTAINER_OPEN)![1]!.length
+  const close = new RegExp(`^ {0,3}:{${colons},}[ \\t]*$`)
+  let j = i + 1
+  while (j < lines.length) {
+    const text = lines[j]!.text
+    if (close.test(text)) {
+      return { end: j + 1, children: scanLines(content, lines.slice(i + 1, j), options) }
+    }
+    j = isFenceOpen(text) ? scanFence(lines, j) : j + 1
+  }
+  return null
+}
+
+function makeBlock(
+  content: string,
+  lines: Line[],
+  kind: BlockKind,
+  from: number,
+  to: number,
+): Block {
+  const first = lines[from]!
+  const last = lines[to - 1]!
+  const endOffset = lineEnd(last)
+  return {
+    kind,
+    raw: content.slice(first.offset, endOffset),
+    position: {
+      start: { line: first.number, column: 1, offset: first.offset, byteOffset: first.byteOffset },
+      end: {
+        line: last.number,
+        column: last.text.length + 1,
+        offset: endOffset,
+        byteOffset: last.byteOffset + utf8Length(last.text),
+      },
+    },
+  }
+}
+
+function scanLines(content: string, lines: Line[], options: ScanOptions): Block[] {
+  const blocks: Block[] = []
+  let i = 0
+
+  while (i < lines.length) {
+    const text = lines[i]!.text
+    if (isBlank(text)) {
+      i++
+      continue
+    }
+
+    let kind: BlockKind
+    let end: number
+    let children: Block[] | undefined
+    const jsx = options.mdx && JSX_OPEN.test(text) ? scanJsx(content, lines, i, options) : null
+    const container = CONTAINER_OPEN.test(text) ? scanContainer(content, lines, i, options) : null
+
+    if (options.mdx && ESM_STATEMENT.test(text)) {
+      kind = 'esm'
+      end = scanEsm(lines, i)
+    } else if (jsx) {
+      kind = 'jsx'
+      ;({ end, children } = jsx)
+    } else if (container) {
+      kind = 'container'
+      ;({ end, children } = container)
+    } else if (isFenceOpen(text)) {
+      kind = 'code'
+      end = scanFence(lines, i)
+    } else if (!options.mdx && INDENTED_CODE.test(text)) {
+      kind = 'code'
+      end = scanIndentedCode(lines, i)
+    } else if (ATX_HEADING.test(text)) {
+      kind = 'heading'
+      end = i + 1
+    } else if (THEMATIC_BREAK.test(text)) {
+      kind = 'thematicBreak'
+      end = i + 1
+    } else if (BLOCKQUOTE.test(text)) {
+      kind = 'blockquote'
+      end = scanBlockquote(lines, i)
+    } else if (LIST_ITEM.test(text)) {
+      kind = 'list'
+      end = scanList(lines, i)
+    } else if (!options.mdx && HTML_OPEN.test(text)) {
+      kind = 'html'
+      end = scanHtml(lines, i)
+    } else if (isTableStart(lines, i)) {
+      kind = 'table'
+      end = scanTable(lines, i)
+    } else if (DEFINITION.test(text)) {
+      kind = 'definition'
+      end = scanDefinition(lines, i)
+    } else {
+      ;({ kind, end } = scanParagraph(lines, i))
+    }
+
+    const block = makeBlock(content, lines, kind, i, end)
+    if (children) block.children = children
+    blocks.push(block)
+    i = end
+  }
+
+  return blocks
+}
+
+/**
+ * Divide o conteúdo em blocos de nível superior (CommonMark + GFM),
+ * preservando a posição de cada um no texto original
+ */
+export function scanBlocks(content: string, options: ScanOptions = {}): Block[] {
+  const lines = splitLines(content)
+  const start = options.frontmatter === false ? 0 : scanFrontmatter(lines)
+  const blocks = scanLines(content, lines.slice(start), options)
+  if (start > 0) blocks.unshift(makeBlock(content, lines, 'frontmatter', 0, start))
+  return blocks
+}
+
+/** Blocos e seus filhos, em ordem de documento */
+export function flattenBlocks(blocks: Block[]): Block[] {
+  return blocks.flatMap((block) => [block, ...flattenBlocks(block.children ?? [])])
+}
+
+/** Desloca as posições de blocos escaneados a partir do meio do documento */
+function shiftBlocks(blocks: Block[], by: Omit<Point, 'column'>): Block[] {
+  const shift = (point: Point): Point => ({
+    line: point.line + by.line,
+    column: point.column,
+    offset: point.offset + by.offset,
+    byteOffset: point.byteOffset + by.byteOffset,
+  })
+  return blocks.map((block) => ({
+    ...block,
+    position: { start: shift(block.position.start), end: shift(block.position.end) },
+    ...(block.children ? { children: shiftBlocks(block.children, by) } : {}),
+  }))
+}
+
+/**
+ * Parágrafo que pode virar container ou JSX quando o fechamento chegar:
+ * enquanto estiver pendente, nada depois dele é considerado completo
+ */
+function isPending(block: Block, options: ScanOptions): boolean {
+  const first = block.raw.split('\n')[0]!
+  return (
+    block.kind === 'paragraph' &&
+    (CONTAINER_OPEN.test(first) || (!!options.mdx && JSX_OPEN.test(first)))
+  )
+}
+
+/**
+ * Escaneia o conteúdo conforme os pedaços chegam, devolvendo lotes de blocos
+ * completos com posições relativas ao documento inteiro. Um bloco só é
+ * devolvido quando o bloco seguinte já começou (ou o conteúdo acabou).
+ */
+export async function* scanStream(
+  chunks: AsyncIterable<string>,
+  options: ScanOptions = {},
+): AsyncGenerator<Block[]> {
+  let buffer = ''
+  let line = 0
+  let offset = 0
+  let byteOffset = 0
+  // Quanto do buffer o último scan já viu sem achar o fim do último bloco
+  let scanned = 0
+
+  const scan = (text: string) =>
+    shiftBlocks(scanBlocks(text, { ...options, frontmatter: offset === 0 }), {
+      line,
+      offset,
+      byteOffset,
+    })
+
+  for await (const chunk of chunks) {
+    buffer += chunk
+    // Só linhas completas: o fim de uma linha parcial pode mudar o tipo do bloco
+    const complete = buffer.lastIndexOf('\n') + 1
+    if (complete === 0) continue
+    // Bloco aberto só é escaneado de novo quando o texto dobra: reescanear a cada
+    // pedaço deixaria um bloco enorme (uma tabela de megabytes) quadrático
+    if (complete < scanned * 2) continue
+
+    const text = buffer.slice(0, complete)
+    const blocks = scan(text)
+    let ready = blocks.length - 1
+    const pending = blocks.findIndex((b) => isPending(b, options))
+    if (pending !== -1 && pending < ready) ready = pending
+    // Frontmatter ainda sem o delimitador de fechamento
+    if (
+      offset === 0 &&
+      FRONTMATTER_OPEN.test(text.slice(0, text.indexOf('\n')).replace(/\r$/, ''))
+    ) {
+      if (blocks[0]?.kind !== 'frontmatter') ready = 0
+    }
+    if (ready <= 0) {
+      scanned = complete
+      continue
+    }
+
+    const cut = blocks[ready]!.position.start.offset - offset
+    yield blocks.slice(0, ready)
+    line += text.slice(0, cut).split('\n').length - 1
+    offset += cut
+    byteOffset = blocks[ready]!.position.start.byteOffset
+    buffer = buffer.slice(cut)
+    scanned = complete - cut
+  }
+
+  if (buffer.trim()) yield scan(buffer)
+}
@@ -0,0 +1,213 @@
+import { test, expect, describe } from 'bun:test'
+import { parseMarkdown } from './parser'
+import { createSearchIndex, loadSearchIndex, tokenize } from './search'
+
+const md = `# Tabs
+
+Um conjunto de painéis em camadas, exibidos um de cada vez.
+
+## Instalação
+
+\`\`\`bash
+npm install @ui/tabs
+\`\`\`
+
+## API
+
+### Tabs.Root
+
+| Prop | Type | Description |
+| --- | --- | --- |
+| defaultValue | string | Aba aberta inicialmente |
+
+### Tabs.Trigger
+
+| Prop | Type | Description |
+| --- | --- | --- |
+| disabled | boolean | Impede a interação com a aba |
+
+\`\`\`tsx
+const [value, setValue] = useState('account')
+\`\`\`
+
+## Acessibilidade
+
+Segue o padrão WAI-ARIA de tabs. Tabs usa navegação por teclado com as setas.
+`
+
+// ── tokenize ───────────────────────────────────────────────────
+
+describe('tokenize', () => {
+  test('minúsculas e sem acento', () => {
+    expect(tokenize('Navegação por Teclado')).toEqual(['navegacao', 'por', 'teclado'])
+  })
+
+  test('camelCase gera também as partes', () => {
+    expect(tokenize('useState')).toEqual(['usestate', 'use', 'state'])
+    expect(tokenize('Tabs.Trigger')).toEqual(['tabs', 'trigger'])
+  })
+})
+
+// ── Ranking ────────────────────────────────────────────────────
+
+describe('ranking', () => {
+  test('ordena por relevância (BM25)', async () => {
+    const doc = await parseMarkdown(md)
+    const results = doc.search('tabs')
+    expect(results.length).toBeGreaterThan(1)
+    expect(results[0]!.type).toBe('heading')
+    for (let i = 1; i < results.length; i++) {
+      expect(results[i]!.score).toBeLessThanOrEqual(results[i - 1]!.score)
+    }
+  })
+
+  test('seções com mais termos da busca ficam na frente', async () => {
+    const doc = await parseMarkdown(md)
+    const [first] = doc.search('navegação teclado')
+    expect(first!.type).toBe('content')
+    expect(first!.breadcrumb).toEqual(['Tabs', 'Acessibilidade'])
+  })
+
+  test('ignora acentos na busca', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.search('instalacao')[0]!.type).toBe('heading')
+  })
+
+  test('limit corta os resultados', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.search('tabs', { limit: 2 })).toHaveLength(2)
+  })
+
+  test('query só com pontuação não traz resultados', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.search('  --  ')).toEqual([])
+  })
+})
+
+// ── Prefixo e fuzzy ────────────────────────────────────────────
+
+describe('prefixo e fuzzy', () => {
+  test('prefixo encontra palavras maiores', async () => {
+    const doc = await parseMarkdown(md)
+    const [first] = doc.search('acessib')
+    expect(first!.terms).toEqual(['acessibilidade'])
+    expect(doc.search('acessib', { prefix: false })).toEqual([])
+  })
+
+  test('tolera erros de digitação', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.search('teclaod')[0]!.terms).toEqual(['teclado'])
+    expect(doc.search('acesibilidade')[0]!.terms).toEqual(['acessibilidade'])
+    expect(doc.search('teclaod', { fuzzy: false })).toEqual([])
+  })
+
+  test('palavras curtas não usam fuzzy', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.search('npn')).toEqual([])
+  })
+
+  test('match exato pontua mais que prefixo', async () => {
+    const doc = await parseMarkdown('# Intro\n\nThe button.\n\nThe buttons.')
+    const [exact, prefix] = doc.search('button', { type: 'content' })
+    expect(exact!.terms).toEqual(['button'])
+    expect(prefix!.terms).toEqual(['buttons'])
+    expect(exact!.score).toBeGreaterThan(prefix!.score)
+  })
+
+  test('partes de camelCase são pesquisáveis', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.search('state')[0]!.type).toBe('code')
+  })
+})
+
+// ── Filtros ────────────────────────────────────────────────────
+
+describe('filtros', () => {
+  test('type filtra por tipo de seção', async () => {
+    const doc = await parseMarkdown(md)
+    const results = doc.search('tabs', { type: ['table', 'code'] })
+    expect(results.map((r) => r.type)).toEqual(['code'])
+  })
+
+  test('lang filtra code blocks', async () => {
+    const doc = await parseMarkdown(md)
+    expect(doc.search('install', { lang: 'bash' })).toHaveLength(1)
+    expect(doc.search('install', { lang: 'tsx' })).toEqual([])
+  })
+
+  test('under filtra por caminho de headings, texto ou slug', async () => {
+    const doc = await parseMarkdown(md)
+    const root = doc.search('aba', { under: 'API > Tabs.Root' })
+    expect(root).toHaveLength(1)
+    expect(root[0]!.breadcrumb).toEqual(['Tabs', 'API', 'Tabs.Root'])
+    expect(doc.search('aba', { under: ['api', 'tabstrigger'] })).toHaveLength(1)
+    expect(doc.search('aba', { under: 'Acessibilidade' })).toEqual([])
+  })
+
+  test('o heading do caminho entra no filtro under', async () => {
+    const doc = await parseMarkdown(md)
+    const results = doc.search('trigger', { under: 'Tabs.Trigger', type: 'heading' })
+    expect(results).toHaveLength(1)
+    expect(results[0]!.breadcrumb).toEqual(['Tabs', 'API'])
+  })
+})
+
+// ── Snippets ───────────────────────────────────────────────────
+
+describe('snippets', () => {
+  test('destaca os termos encontrados', async () => {
+    const doc = await parseMarkdown(md)
+    const [first] = doc.search('teclado', { type: 'content' })
+    expect(first!.snippet).toBe(
+      'Segue o padrão WAI-ARIA de tabs. Tabs usa navegação por **teclado** com as setas.',
+    )
+  })
+
+  test('marcadores customizados', async () => {
+    const doc = await parseMarkdown(md)
+    const [first] = doc.search('camadas', { highlight: ['<mark>', '</mark>'] })
+    expect(first!.snippet).toContain('em <mark>camadas</mark>,')
+  })
+
+  test('texto longo é recortado em volta do termo', async () => {
+    const filler = 'lorem ipsum dolor sit amet '.repeat(20)
+    const doc = await parseMarkdown(`${filler}agulha ${filler}`)
+    const [first] = doc.search('agulha')
+    expect(first!.snippet.startsWith('…')).toBe(true)
+    expect(first!.snippet.endsWith('…')).toBe(true)
+    expect(first!.snippet).toContain('**agulha**')
+    expect(first!.snippet.length).toBeLessThan(200)
+  })
+})
+
+// ── Índice ─────────────────────────────────────────────────────
+
+describe('createSearchIndex / loadSearchIndex', () => {
+  test('indexa vários documentos', async () => {
+    const a = await parseMarkdown('# Button\n\nClickable.', 'button.md')
+    const b = await parseMarkdown('# Dialog\n\nA modal with a button.', 'dialog.md')
+    const index = createSearchIndex([a, b])
+    expect(index.size).toBe(4)
+    expect(index.search('button').map((r) => r.source)).toEqual(['button.md', 'dialog.md'])
+  })
+
+  test('serializa e recarrega com os mesmos resultados', async () => {
+    const doc = await parseMarkdown(md, 'tabs.md')
+    const index = createSearchIndex([doc])
+    const loaded = loadSearchIndex(JSON.parse(JSON.stringify(index)))
+    const strip = (results: ReturnType<typeof index.search>) =>
+      results.map(({ section: _, ...rest }) => rest)
+    const options = { under: 'API' }
+    expect(loaded.search('aba disabled', options)).toEqual(
+      strip(index.search('aba disabled', options)),
+    )
+    expect(loaded.search('install', { lang: 'bash' })).toHaveLength(1)
+    expect(loaded.search('install')[0]!.section).toBeUndefined()
+  })
+
+  test('formato desconhecido lança erro', () => {
+    expect(() => loadSearchIndex({ version: 2 } as never)).toThrow(
+      'Unsupported search index format',
+    )
+  })
+})
@@ -0,0 +1,337 @@
+/**
+ * Search - Busca full-text ranqueada (BM25) sobre as seções de um ou mais documentos
+ * Tokens sem acento e em minúsculas, com match por prefixo e tolerância a erros de digitação
+ */
+
+import type { ParsedDoc, Section, SectionType } from './parser'
+
+export interface SearchOptions {
+  /** Só seções destes tipos */
+  type?: SectionType | SectionType[]
+  /** Só code blocks desta linguagem (ou que começam com ela, como `byLang`) */
+  lang?: string
+  /** Só seções sob um caminho de headings (`'API > Tabs.Trigger'`), texto ou slug */
+  under?: string | string[]
+  /** Termos da busca casam com o início de palavras maiores (padrão: `true`) */
+  prefix?: boolean
+  /** Tolera erros de digitação (padrão: `true`; 1 edição a partir de 4 letras, 2 a partir de 8) */
+  fuzzy?: boolean
+  /** Máximo de resultados (padrão: todos) */
+  limit?: number
+  /** Marcadores em volta dos termos no snippet (padrão: `['**', '**']`) */
+  highlight?: [string, string]
+}
+
+export interface SearchResult {
+  source: string
+  idx: number
+  type: SectionType
+  /** Headings que contêm a seção, do mais externo ao mais interno */
+  breadcrumb: string[]
+  score: number
+  /** Trecho do texto da seção em volta do primeiro termo encontrado, com destaque */
+  snippet: string
+  /** Termos do índice que casaram com a busca (após prefixo/fuzzy) */
+  terms: string[]
+  /** Seção original; ausente quando o índice foi carregado de JSON */
+  section?: Section
+}
+
+/** Formato serializável do índice (`JSON.stringify(index)`) */
+export interface SearchIndexData {
+  version: 1
+  entries: SearchEntryData[]
+}
+
+interface SearchEntryData {
+  source: string
+  idx: number
+  type: SectionType
+  lang?: string
+  breadcrumb: { text: string; slug: string }[]
+  text: string
+}
+
+export interface SearchIndex {
+  /** Quantidade de seções indexadas */
+  size: number
+  search(query: string, options?: SearchOptions): SearchResult[]
+  toJSON(): SearchIndexData
+}
+
+interface Entry extends SearchEntryData {
+  section?: Section
+  terms: Map<string, number>
+  length: number
+}
+
+const WORD = /[\p{L}\p{N}_]+/gu
+const K1 = 1.2
+const B = 0.75
+const PREFIX_WEIGHT = 0.8
+const FUZZY_WEIGHT = [1, 0.6, 0.4]
+
+function normalize(word: string): string {
+  return word.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase()
+}
+
+/** A palavra e, em identificadores camelCase, suas partes (`useState` → use, state) */
+function wordTokens(word: string): string[] {
+  const whole = normalize(word)
+  const parts = word.split(/(?<=[\p{Ll}\p{N}])(?=\p{Lu})/u).map(normalize)
+  return parts.length > 1 ? [whole, ...parts] : [whole]
+}
+
+export function tokenize(text: string): string[] {
+  return (text.match(WORD) ?? []).flatMap(wordTokens)
+}
+
+/** Texto pesquisável da seção, sem a sintaxe markdown */
+function sectionText(section: Section): string {
+  switch (section.type) {
+    case 'heading':
+    case 'content':
+      return section.text
+    case 'code':
+      return [section.filename ?? '', section.code].join('\n').trim()
+    case 'table':
+      return [
+        section.headers.join(' '),
+        ...section.rows.map((row) => Object.values(row).join(' ')),
+      ].join('\n')
+    case 'list': {
+      const texts: string[] = []
+      const visit = (items: typeof section.items) => {
+        for (const item of items) {
+          texts.push(item.text)
+          visit(item.children)
+        }
+      }
+      visit(section.items)
+      return texts.join('\n')
+    }
+    case 'esm':
+      return section.code
+    case 'jsx': {
+      const values = Object.values(section.attributes).filter((v) => typeof v === 'string')
+      return [section.name, ...values, section.content].join(' ').trim()
+    }
+    case 'callout':
+      // O conteúdo está nas seções filhas, indexadas separadamente
+      return section.title
+    default:
+      // Seções de plugins
+      return (section as Section).raw
+  }
+}
+
+/**
+ * Distância de edição (letras trocadas de lugar contam como uma edição),
+ * limitada: devolve `max + 1` assim que passa do limite
+ */
+export function editDistance(a: string, b: string, max = Infinity): number {
+  if (Math.abs(a.length - b.length) > max) return max + 1
+  let before: number[] = []
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    let best = i
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      let distance = Math.min(previous[j]! + 1, current[j - 1]! + 1, previous[j - 1]! + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        distance = Math.min(distance, before[j - 2]! + 1)
+      }
+      current[j] = distance
+      best = Math.min(best, distance)
+    }
+    if (best > max) return max + 1
+    before = previous
+    previous = current
+  }
+  return previous[b.length]!
+}
+
+function maxDistance(term: string): number {
+  return term.length >= 8 ? 2 : term.length >= 4 ? 1 : 0
+}
+
+function matchesPath(breadcrumb: { text: string; slug: string }[], path: string | string[]) {
+  const segments = (Array.isArray(path) ? path : path.split('>'))
+    .map((s) => s.trim().toLowerCase())
+    .filter(Boolean)
+  let i = 0
+  for (const heading of breadcrumb) {
+    const segment = segments[i]
+    if (segment && (heading.text.toLowerCase() === segment || heading.slug === segment)) i++
+  }
+  return i === segments.length
+}
+
+function makeSnippet(text: string, terms: Set<string>, [open, close]: [string, string]) {
+  const flat = text.replace(/\s+/g, ' ').trim()
+  const hits = [...flat.matchAll(WORD)].filter((m) => wordTokens(m[0]).some((t) => terms.has(t)))
+
+  const width = 160
+  const first = hits[0]?.index ?? 0
+  let start = Math.max(0, Math.min(first - 40, flat.length - width))
+  if (start > 0) start = flat.indexOf(' ', start) + 1 || start
+  let end = Math.min(flat.length, start + width)
+  if (end < flat.length) end = flat.lastIndexOf(' ', end) > first ? flat.lastIndexOf(' ', end) : end
+
+  let snippet = ''
+  let cursor = start
+  for (const hit of hits) {
+    const from = hit.index
+    const to = from + hit[0].length
+    if (from < start || to > end) continue
+    snippet += flat.slice(cursor, from) + open + hit[0] + close
+    cursor = to
+  }
+  snippet += flat.slice(cursor, end)
+  return (start > 0 ? '…' : '') + snippet + (end < flat.length ? '…' : '')
+}
+
+function buildIndex(entries: Entry[]): SearchIndex {
+  // Índice invertido: termo → entradas que o contêm
+  const postings = new Map<string, Entry[]>()
+  for (const entry of entries) {
+    for (const term of entry.terms.keys()) {
+      const list = postings.get(term)
+      if (list) list.push(entry)
+      else postings.set(term, [entry])
+    }
+  }
+  const averageLength = entries.reduce((sum, e) => sum + e.length, 0) / (entries.length || 1)
+
+  const idf = (term: string) => {
+    const df = postings.get(term)?.length ?? 0
+    return Math.log(1 + (entries.length - df + 0.5) / (df + 0.5))
+  }
+
+  /** Termos do índice que casam com o termo da busca, com o peso de cada um */
+  const expand = (term: string, options: SearchOptions): Map<string, number> => {
+    const found = new Map<string, number>()
+    if (postings.has(term)) found.set(term, 1)
+    const limit = options.fuzzy === false ? 0 : maxDistance(term)
+    for (const candidate of postings.keys()) {
+      if (candidate === term) continue
+      let weight = 0
+      if (options.prefix !== false && term.length >= 2 && candidate.startsWith(term)) {
+        weight = PREFIX_WEIGHT
+      }
+      if (limit > 0 && weight === 0) {
+        const distance = editDistance(term, candidate, limit)
+        if (distance <= limit) weight = FUZZY_WEIGHT[distance]!
+      }
+      if (weight > 0) found.set(candidate, weight)
+    }
+    return found
+  }
+
+  return {
+    size: entries.length,
+    search(query, options = {}) {
+      const types = options.type ? [options.type].flat() : undefined
+      const candidates = entries.filter(
+        (e) =>
+          (!types || types.includes(e.type)) &&
+          (!options.lang ||
+            (!!e.lang && (e.lang === options.lang || e.lang.startsWith(options.lang)))) &&
+          (!options.under || matchesPath(e.breadcrumb, options.under)),
+      )
+      const queryTerms = [...new Set(tokenize(query))]
+      if (queryTerms.length === 0 || candidates.length === 0) return []
+      const expansions = queryTerms.map((term) => expand(term, options))
+
+      const results: SearchResult[] = []
+      for (const entry of candidates) {
+        let score = 0
+        const matched = new Set<string>()
+        for (const expansion of expansions) {
+          let best = 0
+          for (const [term, weight] of expansion) {
+            const tf = entry.terms.get(term)
+            if (!tf) continue
+            const norm = tf + K1 * (1 - B + (B * entry.length) / averageLength)
+            const termScore = weight * idf(term) * ((tf * (K1 + 1)) / norm)
+            if (termScore > best) best = termScore
+            matched.add(term)
+          }
+          score += best
+        }
+        if (score === 0) continue
+
+        const headings = entry.type === 'heading' ? entry.breadcrumb.slice(0, -1) : entry.breadcrumb
+        results.push({
+          source: entry.source,
+          idx: entry.idx,
+          type: entry.type,
+          breadcrumb: headings.map((h) => h.text),
+          score,
+          snippet: makeSnippet(entry.text, matched, options.highlight ?? ['**', '**']),
+          terms: [...matched],
+          ...(entry.section ? { section: entry.section } : {}),
+        })
+      }
+
+      results.sort((a, b) => b.score - a.score)
+      return options.limit === undefined ? results : results.slice(0, options.limit)
+    },
+    toJSON() {
+      return {
+        version: 1,
+        entries: entries.map(({ source, idx, type, lang, breadcrumb, text }) => ({
+          source,
+          idx,
+          type,
+          ...(lang ? { lang } : {}),
+          breadcrumb,
+          text,
+        })),
+      }
+    },
+  }
+}
+
+function makeEntry(data: SearchEntryData, section?: Section): Entry {
+  const terms = new Map<string, number>()
+  const tokens = tokenize(data.text)
+  for (const token of tokens) terms.set(token, (terms.get(token) ?? 0) + 1)
+  return { ...data, ...(section ? { section } : {}), terms, length: tokens.length }
+}
+
+/**
+ * Indexa todas as seções dos documentos. O breadcrumb de um heading inclui ele mesmo,
+ * para que o filtro `under` encontre o heading do caminho.
+ */
+export function createSearchIndex(docs: ParsedDoc[]): SearchIndex {
+  const entries = docs.flatMap((doc) =>
+    doc.sections.map((section) => {
+      const headings = doc.breadcrumb(section)
+      const path = section.type === 'heading' ? [...headings, section] : headings
+      return makeEntry(
+        {
+          source: doc.source,
+          idx: section.idx,
+          type: section.type,
+          ...(section.type === 'code' ? { lang: section.lang } : {}),
+          breadcrumb: path.map((h) => ({ text: h.text, slug: h.slug })),
+          text: sectionText(section),
+        },
+        section,
+      )
+    }),
+  )
+  return buildIndex(entries)
+}
+
+/**
+ * Recarrega um índice salvo com `JSON.stringify(index)`
+ */
+export function loadSearchIndex(data: SearchIndexData): SearchIndex {
+  if (data?.version !== 1 || !Array.isArray(data.entries)) {
+    throw new Error('Unsupported search index format')
+  }
+  return buildIndex(data.entries.map((entry) => makeEntry(entry)))
+}
@@ -0,0 +1,227 @@
+import { test, expect, describe } from 'bun:test'
+import componentsSchema from '../schema/components.schema.json'
+import docSchema from '../schema/doc.schema.json'
+import { extractComponents } from './extractor'
+import {
+  hydrateComponents,
+  hydrateDoc,
+  parseMarkdown,
+  serializeComponents,
+  type SerializedDoc,
+} from './parser'
+
+const md = `---
+title: Button
+tags: [ui]
+---
+
+# Button
+
+Veja [Dialog](./dialog.md) e ![logo](./logo.png).
+
+> [!WARNING]
+> Deprecated em breve
+>
+> - item **forte**
+
+:::tip Dica
+Texto da dica
+:::
+
+## Props
+
+| Prop | Type | Description |
+| :--- | --- | --- |
+| \`variant\` | \`string\` | Estilo |
+
+### Exemplo
+
+\`\`\`tsx title="app/page.tsx" {1}
+import { Button } from "@/ui/button"
+\`\`\`
+
+1. um
+   - [x] feito
+`
+
+/** Ida e volta pelo texto JSON, como num cache em disco */
+const roundTrip = <T>(value: unknown) => JSON.parse(JSON.stringify(value)) as T
+
+// Subconjunto de JSON Schema usado pelos schemas publicados
+type Schema = Record<string, any>
+function validate(value: unknown, schema: Schema, root: Schema, path = '$'): string[] {
+  if (schema['$ref']) {
+    const name = String(schema['$ref']).replace('#/$defs/', '')
+    return validate(value, root['$defs'][name], root, path)
+  }
+  if (schema['oneOf']) {
+    const matches = schema['oneOf'].filter(
+      (s: Schema) => validate(value, s, root, path).length === 0,
+    )
+    return matches.length === 1 ? [] : [`${path}: matches ${matches.length} of oneOf`]
+  }
+  if ('const' in schema && value !== schema['const']) return [`${path}: expected const`]
+  if (schema['enum'] && !schema['enum'].includes(value)) return [`${path}: not in enum`]
+  if (schema['not'] && validate(value, schema['not'], root, path).length === 0) {
+    return [`${path}: matches not`]
+  }
+  const type = schema['type']
+  if (type === 'object') {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return [`${path}: expected object`]
+    }
+    const record = value as Record<string, unknown>
+    const errors = (schema['required'] ?? [])
+      .filter((key: string) => !(key in record))
+      .map((key: string) => `${path}.${key}: required`)
+    for (const [key, item] of Object.entries(record)) {
+      const child = schema['properties']?.[key] ?? schema['additionalProperties']
+      if (child && typeof child === 'object') {
+        errors.push(...validate(item, child, root, `${path}.${key}`))
+      }
+    }
+    return errors
+  }
+  if (type === 'array') {
+    if (!Array.isArray(value)) return [`${path}: expected array`]
+    return value.flatMap((item, i) => validate(item, schema['items'], root, `${path}[${i}]`))
+  }
+  if (type === 'integer' && !Number.isInteger(value)) return [`${path}: expected integer`]
+  if (type && type !== 'integer' && typeof value !== type) return [`${path}: expected ${type}`]
+  if (schema['minimum'] !== undefined && (value as number) < schema['minimum']) {
+    return [`${path}: below minimum`]
+  }
+  return []
+}
+
+// ── ParsedDoc ──────────────────────────────────────────────────
+
+describe('hydrateDoc', () => {
+  test('JSON.stringify usa o formato versionado', async () => {
+    const doc = await parseMarkdown(md, 'button.md')
+    const data = roundTrip<SerializedDoc>(doc)
+    expect(data.format).toBe('mdxtractor/doc')
+    expect(data.version).toBe(1)
+    expect(data.content).toBe(md)
+    expect(data.sections).toHaveLength(doc.total)
+    // Filhos do callout viram idx
+    const callout = data.sections.find((s) => s.type === 'callout')!
+    expect(callout.children).toEqual([3, 4])
+  })
+
+  test('reconstrói um doc equivalente, com as consultas funcionando', async () => {
+    const doc = await parseMarkdown(md, 'button.md')
+    const hydrated = hydrateDoc(roundTrip(doc))
+    expect(hydrated.sections).toEqual(doc.sections)
+    expect(hydrated.title).toBe('Button')
+    expect(hydrated.frontmatter).toEqual(doc.frontmatter)
+    expect(hydrated.links.map((l) => l.href)).toEqual(['./dialog.md'])
+    expect(hydrated.images.map((i) => i.src)).toEqual(['./logo.png'])
+    expect(hydrated.byLang('tsx')[0]!.filename).toBe('app/page.tsx')
+    expect(hydrated.sectionUnder('Props', 'table')!.rows).toEqual([
+      { Prop: 'variant', Type: 'string', Description: 'Estilo' },
+    ])
+    const [result] = hydrated.search('dica')
+    expect(result!.section).toBe(hydrated.sections[result!.idx]!)
+    expect(hydrated.resolveAnchor('#exemplo')?.text).toBe('Exemplo')
+    expect(JSON.stringify(hydrated)).toBe(JSON.stringify(doc))
+  })
+
+  test('headings, codeBlocks, tables e filhos de callouts são os objetos de sections', async () => {
+    const hydrated = hydrateDoc(roundTrip(await parseMarkdown(md, 'button.md')))
+    const { sections } = hydrated
+    for (const heading of hydrated.headings) expect(sections).toContain(heading)
+    expect(sections).toContain(hydrated.codeBlocks[0]!)
+    expect(sections).toContain(hydrated.tables[0]!)
+    for (const callout of hydrated.byType('callout')) {
+      for (const child of callout.children) expect(child).toBe(sections[child.idx]!)
+    }
+    expect(hydrated.breadcrumb(hydrated.codeBlocks[0]!).map((h) => h.text)).toEqual([
+      'Button',
+      'Props',
+      'Exemplo',
+    ])
+  })
+
+  test('diagnósticos reportados depois do parse são mantidos', async () => {
+    const doc = await parseMarkdown('# Card\n\n## API\n\n| Prop | Default |\n| - | - |\n| a | b |')
+    extractComponents(doc)
+    const hydrated = hydrateDoc(roundTrip(doc))
+    expect(hydrated.diagnostics.map((d) => d.code)).toEqual(['props-table-missing-type'])
+    expect(hydrated.diagnostics[0]!.section).toBe(hydrated.tables[0]!)
+  })
+
+  test('formato ou versão desconhecidos lançam erro', () => {
+    expect(() => hydrateDoc({ version: 1 } as unknown as SerializedDoc)).toThrow(
+      'Unsupported format: expected "mdxtractor/doc"',
+    )
+    const future = { format: 'mdxtractor/doc', version: 2 } as unknown as SerializedDoc
+    expect(() => hydrateDoc(future)).toThrow('Unsupported mdxtractor/doc version: 2')
+  })
+
+  test('idx inexistente lança erro', async () => {
+    const data = roundTrip<SerializedDoc>(await parseMarkdown(md, 'button.md'))
+    const callout = data.sections.find((s) => s.type === 'callout')!
+    callout.children = [99]
+    expect(() => hydrateDoc(data)).toThrow('Invalid mdxtractor/doc data: no section with idx 99')
+  })
+})
+
+// ── ExtractedComponent[] ───────────────────────────────────────
+
+describe('hydrateComponents', () => {
+  test('ida e volta pelo JSON', async () => {
+    const components = extractComponents(await parseMarkdown(md, 'button.md'))
+    const data = roundTrip(serializeComponents(components))
+    expect(data).toMatchObject({ format: 'mdxtractor/components', version: 1 })
+    expect(hydrateComponents(data as never)).toEqual(components)
+  })
+
+  test('formato errado lança erro', async () => {
+    const doc = roundTrip(await parseMarkdown(md))
+    expect(() => hydrateComponents(doc as never)).toThrow(
+      'Unsupported format: expected "mdxtractor/components"',
+    )
+  })
+})
+
+// ── JSON Schema ────────────────────────────────────────────────
+
+describe('JSON Schema', () => {
+  test('docs serializados seguem doc.schema.json', async () => {
+    const docs = [
+      await parseMarkdown(md, 'button.md'),
+      await parseMarkdown('import { A } from "a"\n\n# A\n\n<Demo name="a" open />', 'a.mdx'),
+    ]
+    for (const doc of docs) {
+      expect(validate(roundTrip(doc), docSchema, docSchema)).toEqual([])
+    }
+  })
+
+  test('o schema rejeita seções inválidas', async () => {
+    const data = roundTrip<SerializedDoc>(await parseMarkdown(md, 'button.md'))
+    const heading = data.sections[0] as unknown as Record<string, unknown>
+    delete heading['slug']
+    expect(validate(data, docSchema, docSchema)).toEqual(['$.sections[0]: matches 0 of oneOf'])
+  })
+
+  test('componentes serializados seguem components.schema.json', async () => {
+    const components = extractComponents(await parseMarkdown(md, 'button.md'))
+    const data = roundTrip(serializeComponents(components))
+    expect(validate(data, componentsSchema, componentsSchema)).toEqual([])
+  })
+
+  test('tipos de props interpretados seguem o schema', async () => {
+    const types = [
+      '`"sm" \\| 1 \\| true`',
+      '`string[]`',
+      '`(e?: Event) => void`',
+      '`A<"b">`',
+      '`{}`',
+    ]
+    const table = types.map((type, i) => `| \`p${i}*\` | ${type} |`).join('\n')
+    const doc = await parseMarkdown(`# Card\n\n| Prop | Type |\n| - | - |\n${table}`)
+    const data = roundTrip(serializeComponents(extractComponents(doc)))
+    expect(validate(data, componentsSchema, componentsSchema)).toEqual([])
+  })
+})
@@ -0,0 +1,128 @@
+/**
+ * Serialize - Formato JSON versionado de ParsedDoc e ExtractedComponent[]
+ * Referências entre objetos (filhos de callouts, seção de um diagnóstico) viram `idx`
+ */
+
+import type { Diagnostic } from './diagnostics'
+import type { ExtractedComponent } from './extractor'
+import type { Frontmatter } from './frontmatter'
+import type { CalloutSection, ParsedDoc, Section } from './parser'
+
+/** Versão atual dos formatos; muda quando um campo deixa de ser compatível */
+export const SERIALIZED_VERSION = 1
+
+/** Callout com os filhos como `idx` das seções */
+export type SerializedCallout = Omit<CalloutSection, 'children'> & { children: number[] }
+
+export type SerializedSection = Exclude<Section, CalloutSection> | SerializedCallout
+
+export type SerializedDiagnostic = Omit<Diagnostic, 'section'> & {
+  /** `idx` da seção */
+  section?: number
+}
+
+/** `JSON.stringify(doc)`; schema em `mdxtractor/schema/doc.schema.json` */
+export interface SerializedDoc {
+  format: 'mdxtractor/doc'
+  version: 1
+  source: string
+  content: string
+  frontmatter: Frontmatter
+  sections: SerializedSection[]
+  diagnostics: SerializedDiagnostic[]
+}
+
+/** `serializeComponents(components)`; schema em `mdxtractor/schema/components.schema.json` */
+export interface SerializedComponents {
+  format: 'mdxtractor/components'
+  version: 1
+  components: ExtractedComponent[]
+}
+
+/** Dados do documento reconstruídos, prontos para montar o ParsedDoc */
+export interface RestoredDoc {
+  source: string
+  content: string
+  frontmatter: Frontmatter
+  sections: Section[]
+  diagnostics: Diagnostic[]
+}
+
+function checkFormat(data: { format?: unknown; version?: unknown } | null, format: string) {
+  if (data?.format !== format) throw new Error(`Unsupported format: expected "${format}"`)
+  if (data.version !== SERIALIZED_VERSION) {
+    throw new Error(`Unsupported ${format} version: ${String(data.version)}`)
+  }
+}
+
+export function serializeDoc(doc: ParsedDoc): SerializedDoc {
+  return {
+    format: 'mdxtractor/doc',
+    version: SERIALIZED_VERSION,
+    source: doc.source,
+    content: doc.content,
+    frontmatter: doc.frontmatter,
+    sections: doc.sections.map((section) =>
+      section.type === 'callout'
+        ? { ...section, children: section.children.map((child) => child.idx) }
+        : section,
+    ),
+    diagnostics: doc.diagnostics.map(({ section, ...diagnostic }) => ({
+      ...diagnostic,
+      ...(section ? { section: section.idx } : {}),
+    })),
+  }
+}
+
+/**
+ * Valida o formato e troca os `idx` de volta pelas seções. A entrada não é alterada.
+ */
+export function restoreDoc(data: SerializedDoc): RestoredDoc {
+  checkFormat(data, 'mdxtractor/doc')
+  if (!Array.isArray(data.sections) || typeof data.content !== 'string') {
+    throw new Error('Invalid mdxtractor/doc data: missing sections or content')
+  }
+
+  const sections = data.sections.map((section) => ({ ...section }) as Section)
+  const byIdx = new Map(sections.map((section) => [section.idx, section]))
+  const resolve = (idx: number) => {
+    const section = byIdx.get(idx)
+    if (!section) throw new Error(`Invalid mdxtractor/doc data: no section with idx ${idx}`)
+    return section
+  }
+  for (const section of sections) {
+    if (section.type !== 'callout') continue
+    section.children = (section.children as unknown as number[]).map(resolve)
+  }
+
+  const diagnostics = (data.diagnostics ?? []).map(({ section, ...diagnostic }) => ({
+    ...diagnostic,
+    ...(section !== undefined ? { section: resolve(section) } : {}),
+  }))
+
+  return {
+    source: data.source,
+    content: data.content,
+    frontmatter: data.frontmatter ?? {},
+    sections,
+    diagnostics,
+  }
+}
+
+/**
+ * Componentes extraídos no formato versionado; campos de plugins são mantidos
+ */
+export function serializeComponents(components: ExtractedComponent[]): SerializedComponents {
+  return { format: 'mdxtractor/components', version: SERIALIZED_VERSION, components }
+}
+
+/**
+ * Valida e devolve os componentes salvos com `serializeComponents`
+ */
+export function hydrateComponents(data: SerializedComponents): ExtractedComponent[] {
+  checkFormat(data, 'mdxtractor/components')
+  if (!Array.isArray(data.components)) {
+    throw new Error('Invalid mdxtractor/components data: missing components')
+  }
+  return data.components
+}
@@ -0,0 +1,41 @@
+import { test, expect, describe } from 'bun:test'
+import { createSlugger, normalizeAnchor, slugify } from './slug'
+
+// ── slugify ────────────────────────────────────────────────────
+
+describe('slugify', () => {
+  test('segue o github-slugger', () => {
+    expect(slugify('Hello World!')).toBe('hello-world')
+    expect(slugify('Configuração')).toBe('configuração')
+    expect(slugify('Ação & Reação')).toBe('ação--reação')
+    expect(slugify('snake_case and kebab-case')).toBe('snake_case-and-kebab-case')
+    expect(slugify('C++ / C#')).toBe('c--c')
+    expect(slugify('Emoji 🎉 party')).toBe('emoji--party')
+  })
+})
+
+// ── createSlugger ──────────────────────────────────────────────
+
+describe('createSlugger', () => {
+  test('numera repetidos sem colidir com slugs existentes', () => {
+    const slugger = createSlugger()
+    const slugs = ['a', 'a', 'a-1', 'a', 'A'].map((t) => slugger.slug(t))
+    expect(slugs).toEqual(['a', 'a-1', 'a-1-1', 'a-2', 'a-3'])
+  })
+
+  test('cada slugger tem seu próprio estado', () => {
+    expect(createSlugger().slug('x')).toBe('x')
+    expect(createSlugger().slug('x')).toBe('x')
+  })
+})
+
+// ── normalizeAnchor ────────────────────────────────────────────
+
+describe('normalizeAnchor', () => {
+  test('remove `#`, decodifica e ignora o caminho', () => {
+    expect(normalizeAnchor('#Props')).toBe('props')
+    expect(normalizeAnchor('docs/button.md#api')).toBe('api')
+    expect(normalizeAnchor('#configura%C3%A7%C3%A3o')).toBe('configuração')
+    expect(normalizeAnchor('#bad%E0')).toBe('bad%e0')
+  })
+})
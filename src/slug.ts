@@ -0,0 +1,49 @@
+/**
+ * Slug - Gera âncoras iguais às do GitHub (github-slugger)
+ * Mantém letras e números Unicode; cada espaço vira `-`; duplicados ganham `-1`, `-2`...
+ */
+
+// Tudo que não é letra, marca, número, `_`, espaço ou `-` é removido
+const REMOVED = /[^\p{L}\p{M}\p{N}\p{Pc} -]/gu
+
+export function slugify(text: string): string {
+  return text.toLowerCase().replace(REMOVED, '').replace(/ /g, '-')
+}
+
+export interface Slugger {
+  /** Slug do texto, com sufixo quando já foi usado no documento */
+  slug(text: string): string
+}
+
+/**
+ * Slugger com estado por documento: `Example`, `Example` → `example`, `example-1`
+ */
+export function createSlugger(): Slugger {
+  const occurrences = new Map<string, number>()
+
+  return {
+    slug(text) {
+      const base = slugify(text)
+      let result = base
+      while (occurrences.has(result)) {
+        const count = occurrences.get(base)! + 1
+        occurrences.set(base, count)
+        result = `${base}-${count}`
+      }
+      occurrences.set(result, 0)
+      return result
+    },
+  }
+}
+
+/**
+ * Normaliza uma âncora (`'#Configura%C3%A7%C3%A3o'`, `'page.md#props'`) para comparar com slugs
+ */
+export function normalizeAnchor(anchor: string): string {
+  const fragment = anchor.slice(anchor.indexOf('#') + 1)
+  try {
+    return decodeURIComponent(fragment).toLowerCase()
+  } catch {
+    return fragment.toLowerCase()
+  }
+}